@@ -22,7 +22,12 @@ const config: ForgeConfig = {
     // Set application copyright
     appCopyright: `Copyright © ${new Date().getFullYear()} ${author.name}`,
     // Set application icon
-    icon: path.resolve(rootDir, 'assets/icons/icon')
+    icon: path.resolve(rootDir, 'assets/icons/icon'),
+    // Bundled installer configs, found in the resources directory at runtime
+    extraResource: [
+      path.resolve(rootDir, 'installer-config-advanced.json'),
+      path.resolve(rootDir, 'installer-config.json')
+    ]
   },
   rebuildConfig: {},
   makers: [
@@ -44,6 +49,11 @@ const config: ForgeConfig = {
         {
           entry: 'src/preload.ts',
           config: 'config/vite.preload.config.ts'
+        },
+        {
+          // Headless runner for machines without a display
+          entry: 'src/cli.ts',
+          config: 'config/vite.main.config.ts'
         }
       ],
       renderer: [
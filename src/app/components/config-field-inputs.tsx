@@ -0,0 +1,128 @@
+import { Button } from '@/app/components/ui/button';
+import { Input } from '@/app/components/ui/input';
+import { CheckCircle2, FolderOpen, Plus, Trash2 } from 'lucide-react';
+import type { ConfigField, KeyValuePair } from '@/app/types/installer-config';
+
+const INPUT_CLASS = 'bg-slate-900/50 border-slate-600 text-white placeholder:text-slate-500';
+
+interface FieldInputProps<T> {
+  field: ConfigField;
+  value: T;
+  invalid: boolean;
+  onChange: (value: T) => void;
+}
+
+/** A path typed in or picked with the native file or folder dialog. */
+export function PathInput({ field, value, invalid, onChange }: FieldInputProps<string>) {
+  const browse = async () => {
+    const result = field.type === 'directory'
+      ? await electron.ipcRenderer.invoke('dialog:openDirectory', { title: field.label, defaultPath: value || undefined })
+      : await electron.ipcRenderer.invoke('dialog:openFile', { title: field.label, filters: field.filters, defaultPath: value || undefined });
+
+    if (!result.canceled && result.filePaths.length > 0) {
+      onChange(result.filePaths[0]);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        id={field.id}
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={field.placeholder ?? (field.type === 'directory' ? '/path/to/folder' : '/path/to/file')}
+        className={`${INPUT_CLASS} font-mono ${invalid ? 'border-red-500' : ''}`}
+      />
+      <Button
+        type="button"
+        onClick={browse}
+        variant="outline"
+        className="bg-slate-900/50 border-slate-600 text-white hover:bg-slate-800"
+      >
+        <FolderOpen className="w-4 h-4 mr-2" />
+        Browse…
+      </Button>
+    </div>
+  );
+}
+
+/** The options of a `multiselect` field as toggles, in the style of install-time prompts. */
+export function MultiSelectInput({ field, value, onChange }: FieldInputProps<string[]>) {
+  const toggle = (optionValue: string) => {
+    onChange(value.includes(optionValue) ? value.filter(v => v !== optionValue) : [...value, optionValue]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {field.options?.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => toggle(option.value)}
+          className={`w-full text-left p-3 rounded-lg border transition-all ${
+            value.includes(option.value)
+              ? 'bg-blue-600/20 border-blue-500 text-white'
+              : 'bg-slate-900/50 border-slate-700 text-slate-300 hover:bg-slate-800'
+          }`}
+        >
+          <div className="flex items-center justify-between">
+            <span>{option.label}</span>
+            {value.includes(option.value) && <CheckCircle2 className="w-4 h-4 text-blue-400" />}
+          </div>
+        </button>
+      ))}
+      <p className="text-xs text-slate-400">{value.length} selected</p>
+    </div>
+  );
+}
+
+/** Rows of key and value inputs that can be added and removed. */
+export function KeyValueListInput({ field, value, invalid, onChange }: FieldInputProps<KeyValuePair[]>) {
+  const update = (index: number, pair: Partial<KeyValuePair>) => {
+    onChange(value.map((entry, i) => (i === index ? { ...entry, ...pair } : entry)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((pair, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            id={index === 0 ? field.id : undefined}
+            type="text"
+            value={pair.key}
+            onChange={(e) => update(index, { key: e.target.value })}
+            placeholder="Key"
+            className={`${INPUT_CLASS} font-mono ${invalid && !pair.key.trim() ? 'border-red-500' : ''}`}
+          />
+          <Input
+            type="text"
+            value={pair.value}
+            onChange={(e) => update(index, { value: e.target.value })}
+            placeholder="Value"
+            className={`${INPUT_CLASS} font-mono`}
+          />
+          <Button
+            type="button"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            variant="outline"
+            className="bg-slate-900/50 border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-white"
+            aria-label="Remove entry"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        onClick={() => onChange([...value, { key: '', value: '' }])}
+        variant="outline"
+        size="sm"
+        className="bg-slate-900/50 border-slate-600 text-white hover:bg-slate-800"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add entry
+      </Button>
+    </div>
+  );
+}
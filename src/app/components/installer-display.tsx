@@ -1,5 +1,20 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/app/components/ui/card';
 import { Info, CheckCircle2 } from 'lucide-react';
+import { renderText } from '@/app/lib/template';
+
+// Format arrays and booleans nicely
+function formatValue(value: unknown) {
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (value === null || value === undefined || value === '') {
+    return '<not set>';
+  }
+  return String(value);
+}
 
 interface InstallerDisplayProps {
   title?: string;
@@ -9,24 +24,7 @@ interface InstallerDisplayProps {
 
 export function InstallerDisplay({ title, content, variables }: InstallerDisplayProps) {
   // Replace variables in content
-  const processContent = (text: string) => {
-    let processed = text;
-    for (const [key, val] of Object.entries(variables)) {
-      let displayValue = val;
-      
-      // Format arrays nicely
-      if (Array.isArray(val)) {
-        displayValue = val.join(', ');
-      } else if (typeof val === 'boolean') {
-        displayValue = val ? 'Yes' : 'No';
-      } else if (val === null || val === undefined || val === '') {
-        displayValue = '<not set>';
-      }
-      
-      processed = processed.replace(new RegExp(`{{${key}}}`, 'g'), String(displayValue));
-    }
-    return processed;
-  };
+  const processContent = (text: string) => renderText(text, variables, formatValue);
 
   return (
     <Card className="bg-slate-800/60 border-green-500/30 shadow-xl shadow-green-500/5 rounded-xl animate-in fade-in zoom-in-95 duration-300">
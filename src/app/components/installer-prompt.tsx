@@ -2,19 +2,24 @@ import { useState } from 'react';
 import { Button } from '@/app/components/ui/button';
 import { Input } from '@/app/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/app/components/ui/card';
-import { CheckCircle2, ChevronRight, AlertCircle, Eye, EyeOff } from 'lucide-react';
+import { CheckCircle2, ChevronRight, AlertCircle, Eye, EyeOff, RefreshCw } from 'lucide-react';
 import type { InstallCommand } from '@/app/types/installer-config';
+import { validatePromptAnswer } from '@/app/lib/config-fields';
+import { renderText } from '@/app/lib/template';
 
 interface InstallerPromptProps {
   prompt: InstallCommand;
   variables: Record<string, any>;
   onSubmit: (value: any) => void;
+  optionsError?: string; // Why the choices of a prompt with `optionsFrom` could not be read
+  onRefreshOptions?: () => Promise<void>; // Reads the choices of a prompt with `optionsFrom` again
 }
 
-export function InstallerPrompt({ prompt, variables, onSubmit }: InstallerPromptProps) {
+export function InstallerPrompt({ prompt, variables, onSubmit, optionsError, onRefreshOptions }: InstallerPromptProps) {
   const [value, setValue] = useState<any>(prompt.default ?? '');
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState<string>('');
+  const [refreshing, setRefreshing] = useState(false);
   const [selectedOptions, setSelectedOptions] = useState<string[]>(() => {
     if (prompt.promptType === 'multiselect' && prompt.options) {
       return prompt.options.filter(opt => opt.selected).map(opt => opt.value);
@@ -23,28 +28,15 @@ export function InstallerPrompt({ prompt, variables, onSubmit }: InstallerPrompt
   });
 
   // Replace variables in message
-  const processMessage = (text: string) => {
-    let processed = text;
-    for (const [key, val] of Object.entries(variables)) {
-      processed = processed.replace(new RegExp(`{{${key}}}`, 'g'), String(val));
-    }
-    return processed;
-  };
+  const processMessage = (text: string) => renderText(text, variables);
 
   const validate = () => {
-    if (prompt.required && !prompt.allowEmpty && !value) {
-      setError('This field is required');
+    const validationError = validatePromptAnswer(prompt, value);
+    if (validationError) {
+      setError(validationError);
       return false;
     }
     
-    if (prompt.validation && value) {
-      const regex = new RegExp(prompt.validation);
-      if (!regex.test(value)) {
-        setError('Invalid format');
-        return false;
-      }
-    }
-    
     return true;
   };
 
@@ -61,6 +53,15 @@ export function InstallerPrompt({ prompt, variables, onSubmit }: InstallerPrompt
     onSubmit(submitValue);
   };
 
+  const refreshOptions = async () => {
+    setRefreshing(true);
+    try {
+      await onRefreshOptions();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
   const toggleOption = (optionValue: string) => {
     setSelectedOptions(prev => {
       if (prev.includes(optionValue)) {
@@ -197,6 +198,29 @@ export function InstallerPrompt({ prompt, variables, onSubmit }: InstallerPrompt
           </div>
         )}
         
+        {prompt.optionsFrom && onRefreshOptions && (
+          <div className="flex items-center justify-between gap-2 text-xs mt-2">
+            {optionsError ? (
+              <span className="flex items-center gap-1 text-amber-400">
+                <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                Could not read the choices: {optionsError}
+              </span>
+            ) : (
+              <span className="text-slate-400">{prompt.options?.length ?? 0} available</span>
+            )}
+            <Button
+              onClick={refreshOptions}
+              disabled={refreshing}
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-slate-400 hover:bg-slate-800 hover:text-white"
+            >
+              <RefreshCw className={`w-3 h-3 mr-1 ${refreshing ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        )}
+
         {error && (
           <div className="flex items-center gap-2 text-red-400 text-sm mt-2">
             <AlertCircle className="w-4 h-4" />
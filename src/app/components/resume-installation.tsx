@@ -0,0 +1,69 @@
+import { Button } from '@/app/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/app/components/ui/card';
+import { History, Play, Trash2, AlertTriangle } from 'lucide-react';
+import type { InterruptedRun } from '@/app/types/installer-run';
+
+interface ResumeInstallationProps {
+  run: InterruptedRun;
+  error?: string | null; // Why the last attempt to resume failed
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+export function ResumeInstallation({ run, error, onResume, onDiscard }: ResumeInstallationProps) {
+  const canResume = !run.configChanged && run.resumePoint !== null;
+
+  return (
+    <Card className="bg-slate-800/60 border-yellow-500/40 shadow-xl shadow-yellow-500/5 rounded-xl animate-in fade-in slide-in-from-top-4 duration-300">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <History className="w-5 h-5 text-yellow-400" />
+          Unfinished installation found
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          {run.configName} {run.configVersion} was interrupted after {run.completedCommands} of {run.totalCommands} commands
+          (last activity {new Date(run.updatedAt).toLocaleString()}).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canResume && run.resumePoint && (
+          <p className="text-sm text-slate-300">
+            Resume from <span className="text-white font-medium">{run.resumePoint.stepName}</span>
+            {run.resumePoint.description && <> &rsaquo; {run.resumePoint.description}</>}
+          </p>
+        )}
+        {run.configChanged && (
+          <div className="flex items-center gap-2 text-yellow-400 text-sm">
+            <AlertTriangle className="w-4 h-4" />
+            <span>The installer configuration has changed since this run started, so it cannot be resumed.</span>
+          </div>
+        )}
+        {error && (
+          <div className="flex items-center gap-2 text-red-400 text-sm">
+            <AlertTriangle className="w-4 h-4" />
+            <span>Could not resume: {error}</span>
+          </div>
+        )}
+        <div className="flex gap-3">
+          {canResume && (
+            <Button
+              onClick={onResume}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Resume Installation
+            </Button>
+          )}
+          <Button
+            onClick={onDiscard}
+            variant="outline"
+            className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-white"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Discard and Start Over
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,13 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from '@/app/components/ui/button';
 import { Card } from '@/app/components/ui/card';
-import { Terminal as TerminalIcon, CheckCircle2, XCircle, Loader2, ChevronRight, MessageSquare } from 'lucide-react';
+import { Terminal as TerminalIcon, CheckCircle2, XCircle, Loader2, ChevronRight, MessageSquare, RefreshCw, Undo2, Pause, Play, Square } from 'lucide-react';
 import { InstallerPrompt } from '@/app/components/installer-prompt';
 import { InstallerDisplay } from '@/app/components/installer-display';
-import type { InstallStep, InstallCommand, UserConfig } from '@/app/types/installer-config';
+import { useRendererListener } from '@/app/hooks';
+import { SECRET_MASK } from '@/app/lib/secret';
+import type { UserConfig } from '@/app/types/installer-config';
+import type { PromptRequest, RollbackResult, RunEvent, RunState, RunStatus } from '@/app/types/installer-run';
 
 interface AdvancedInstallationStageProps {
   config: UserConfig;
@@ -17,98 +20,116 @@ interface TerminalLine {
   type: 'command' | 'output' | 'error' | 'success' | 'info' | 'step' | 'variable';
   content: string;
   timestamp: Date;
+  stepIndex?: number;
+  stepName?: string; // Set while the step runs alongside others, to tell its lines apart
 }
 
-export function AdvancedInstallationStage({ config, onNext, onBack }: AdvancedInstallationStageProps) {
-  const [lines, setLines] = useState<TerminalLine[]>([]);
-  const [isInstalling, setIsInstalling] = useState(false);
-  const [installComplete, setInstallComplete] = useState(false);
-  const [hasError, setHasError] = useState(false);
-  const [currentStep, setCurrentStep] = useState<string>('');
-  const [steps, setSteps] = useState<InstallStep[]>([]);
-  const [runtimeVariables, setRuntimeVariables] = useState<Record<string, any>>({});
-  const [currentPrompt, setCurrentPrompt] = useState<InstallCommand | null>(null);
-  const [currentDisplay, setCurrentDisplay] = useState<InstallCommand | null>(null);
-  const [isPaused, setIsPaused] = useState(false);
-  const isPausedRef = useRef(false); // Use ref to avoid closure issues
-  const terminalRef = useRef<HTMLDivElement>(null);
+interface ParallelStep {
+  stepIndex: number;
+  name: string;
+}
 
-  // Combine user config with runtime variables
-  const allVariables = { ...config, ...runtimeVariables };
+type StepStatus = 'running' | 'completed' | 'failed';
+
+const getLineColor = (type: TerminalLine['type']) => {
+  switch (type) {
+    case 'command':
+      return 'text-blue-400';
+    case 'output':
+      return 'text-slate-300';
+    case 'error':
+      return 'text-red-400';
+    case 'success':
+      return 'text-green-400';
+    case 'info':
+      return 'text-yellow-400';
+    case 'step':
+      return 'text-purple-400 font-bold';
+    case 'variable':
+      return 'text-cyan-400';
+    default:
+      return 'text-slate-400';
+  }
+};
+
+// Output of one step that ran alongside others
+function StepPane({ name, status, lines }: { name: string; status?: StepStatus; lines: TerminalLine[] }) {
+  const paneRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    loadInstallSteps();
-    setupEventListeners();
-    
-    return () => {
-      electron.ipcRenderer.removeAllListeners('installer:commandOutput');
-      electron.ipcRenderer.removeAllListeners('installer:stepStart');
-      electron.ipcRenderer.removeAllListeners('installer:stepComplete');
-      electron.ipcRenderer.removeAllListeners('installer:stepError');
-    };
-  }, []);
-
-  const loadInstallSteps = async () => {
-    try {
-      const installerConfig = await electron.ipcRenderer.invoke('installer:getConfig');
-      // Use advanced config if available
-      const configPath = installerConfig.installer.version === '2.0.0' 
-        ? installerConfig 
-        : await electron.ipcRenderer.invoke('installer:getAdvancedConfig');
-      
-      setSteps(configPath.installSteps || installerConfig.installSteps);
-      
-      // Initialize runtime variables from pre-checks if they captured anything
-      if (configPath.preChecks) {
-        const capturedVars: Record<string, any> = {};
-        for (const check of configPath.preChecks) {
-          if (check.captureAs) {
-            // These would have been captured during pre-checks
-            capturedVars[check.captureAs] = `<${check.captureAs} from pre-check>`;
-          }
-        }
-        setRuntimeVariables(capturedVars);
-      }
-    } catch (error) {
-      console.error('Failed to load install steps:', error);
-      addLine('error', `Failed to load installation steps: ${error.message}`);
+    if (paneRef.current) {
+      paneRef.current.scrollTop = paneRef.current.scrollHeight;
     }
-  };
-
-  const setupEventListeners = () => {
-    electron.ipcRenderer.on('installer:commandOutput', (_, data) => {
-      if (data.type === 'stdout') {
-        addLine('output', data.data.trim());
-      } else if (data.type === 'stderr') {
-        addLine('error', data.data.trim());
-      }
-    });
-
-    electron.ipcRenderer.on('installer:stepStart', (_, data) => {
-      setCurrentStep(data.name);
-      addLine('step', `📦 ${data.name}: ${data.description}`);
-    });
+  }, [lines.length]);
 
-    electron.ipcRenderer.on('installer:stepComplete', (_, data) => {
-      addLine('success', `✓ ${data.name} completed successfully`);
-    });
+  return (
+    <Card className="bg-slate-900/60 border-slate-700/50 backdrop-blur-sm overflow-hidden rounded-xl">
+      <div className="bg-slate-800 px-4 py-2 border-b border-slate-700 flex items-center gap-2">
+        <TerminalIcon className="w-4 h-4 text-blue-400" />
+        <span className="text-sm font-medium text-slate-200 truncate">{name}</span>
+        {status === 'running' && <Loader2 className="w-4 h-4 text-blue-400 animate-spin ml-auto" />}
+        {status === 'completed' && <CheckCircle2 className="w-4 h-4 text-green-400 ml-auto" />}
+        {status === 'failed' && <XCircle className="w-4 h-4 text-red-400 ml-auto" />}
+      </div>
+      <div ref={paneRef} className="p-3 h-48 overflow-y-auto font-mono text-xs bg-slate-950/50">
+        {lines.map((line) => (
+          <div key={line.id} className={`py-0.5 ${getLineColor(line.type)}`}>
+            {line.type === 'command' && <ChevronRight className="w-3 h-3 inline mr-1" />}
+            {line.content}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
 
-    electron.ipcRenderer.on('installer:stepError', (_, data) => {
-      addLine('error', `✗ Error in ${data.step}: ${data.error}`);
-      setHasError(true);
-    });
-  };
+interface DisplayContent {
+  title?: string;
+  content: string[];
+}
 
-  const addLine = (type: TerminalLine['type'], content: string) => {
+export function AdvancedInstallationStage({ config, onNext, onBack }: AdvancedInstallationStageProps) {
+  const [lines, setLines] = useState<TerminalLine[]>([]);
+  const [status, setStatus] = useState<RunStatus>('idle');
+  const [currentStep, setCurrentStep] = useState<string>('');
+  const [variables, setVariables] = useState<Record<string, unknown>>({});
+  const [currentPrompt, setCurrentPrompt] = useState<PromptRequest | null>(null);
+  const [currentDisplay, setCurrentDisplay] = useState<DisplayContent | null>(null);
+  const [rollbacks, setRollbacks] = useState<RollbackResult[]>([]);
+  // Pause takes effect before the next command, so the request is shown until then
+  const [pauseRequested, setPauseRequested] = useState(false);
+  const [cancelRequested, setCancelRequested] = useState(false);
+  const [parallelSteps, setParallelSteps] = useState<ParallelStep[]>([]);
+  const [stepStatuses, setStepStatuses] = useState<Record<number, StepStatus>>({});
+  const terminalRef = useRef<HTMLDivElement>(null);
+  // The engine runs in the main process; these refs track how much of its transcript we have rendered
+  const lastSeqRef = useRef(-1);
+  const attachedRef = useRef(false);
+  const capturedRef = useRef<Record<string, string>>({});
+  // Steps run side by side, so running steps, labels and unfinished output lines are tracked per step
+  const runningStepsRef = useRef(new Map<number, string>());
+  const parallelStepsRef = useRef(new Map<number, string>());
+  const partialOutputRef = useRef<Record<string, string>>({});
+
+  const isInstalling = status === 'running' || status === 'waiting' || status === 'paused';
+  const isWaiting = status === 'waiting';
+  const isPaused = status === 'paused';
+  const installComplete = status === 'completed';
+  const wasCancelled = status === 'cancelled';
+  const hasError = status === 'failed' || wasCancelled;
+
+  const addLine = (type: TerminalLine['type'], content: string, stepIndex?: number) => {
     const newLine: TerminalLine = {
       id: `${Date.now()}-${Math.random()}`,
       type,
       content,
-      timestamp: new Date()
+      timestamp: new Date(),
+      stepIndex,
+      stepName: stepIndex === undefined ? undefined : parallelStepsRef.current.get(stepIndex)
     };
-    
+
     setLines(prev => [...prev, newLine]);
-    
+
     setTimeout(() => {
       if (terminalRef.current) {
         terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
@@ -116,216 +137,320 @@ export function AdvancedInstallationStage({ config, onNext, onBack }: AdvancedIn
     }, 50);
   };
 
-  const evaluateCondition = (condition: string): boolean => {
-    try {
-      // Create a safe evaluation context with variables
-      const func = new Function(...Object.keys(allVariables), `return ${condition}`);
-      return func(...Object.values(allVariables));
-    } catch (error) {
-      console.error('Error evaluating condition:', condition, error);
-      return false;
-    }
+  // Output arrives in chunks that can end mid-line; whole lines are shown and the rest waits for the next chunk
+  const addOutput = (stepIndex: number, stream: 'stdout' | 'stderr', data: string, tagStep: boolean) => {
+    const key = `${stepIndex}:${stream}`;
+    const pending = (partialOutputRef.current[key] ?? '') + data;
+    const complete = pending.split('\n');
+    partialOutputRef.current[key] = complete.pop() ?? '';
+
+    complete.forEach((line) => {
+      if (line.trim()) {
+        addLine(stream === 'stderr' ? 'error' : 'output', line, tagStep ? stepIndex : undefined);
+      }
+    });
   };
 
-  const waitForPromptResponse = (): Promise<void> => {
-    return new Promise((resolve) => {
-      const checkInterval = setInterval(() => {
-        // Use ref to avoid closure issues - ref always has current value
-        if (!isPausedRef.current) {
-          clearInterval(checkInterval);
-          resolve();
-        }
-      }, 100);
+  const flushOutput = (stepIndex: number, tagStep: boolean) => {
+    (['stdout', 'stderr'] as const).forEach((stream) => {
+      if (partialOutputRef.current[`${stepIndex}:${stream}`]) {
+        addOutput(stepIndex, stream, '\n', tagStep);
+      }
     });
   };
 
-  const processCommand = async (command: InstallCommand): Promise<void> => {
-    // Check condition
-    if (command.condition && !evaluateCondition(command.condition)) {
-      addLine('info', `⊘ Skipping: ${command.description} (condition not met)`);
-      return;
+  const updateRunningSteps = () => {
+    if (runningStepsRef.current.size > 0) {
+      setCurrentStep([...runningStepsRef.current.values()].join(' · '));
     }
+  };
 
-    // Handle different command types
-    if (command.type === 'prompt') {
-      // Show interactive prompt
-      addLine('info', `⌨ User input required: ${command.description}`);
-      setCurrentPrompt(command);
-      setIsPaused(true);
-      isPausedRef.current = true; // Update ref immediately for reliable checking
-
-      // Wait for user input - don't continue until prompt is handled
-      await waitForPromptResponse();
-
-      // Add a small delay to ensure state updates have propagated
-      await new Promise(resolve => setTimeout(resolve, 100));
+  const applyEvent = (event: RunEvent) => {
+    if (event.seq <= lastSeqRef.current) {
       return;
     }
+    lastSeqRef.current = event.seq;
+
+    switch (event.type) {
+      case 'runStart':
+        setStatus('running');
+        addLine('info', event.resumed
+          ? '🔁 Resuming interrupted installation...'
+          : '🚀 Starting advanced installation process...');
+        addLine('info', '═══════════════════════════════════════');
+        if (event.executionMode !== 'execute') {
+          addLine('info', event.executionMode === 'dry-run'
+            ? '🧪 Dry run: commands the policy does not allow are simulated, not run'
+            : '✋ Commands the policy does not allow will ask for confirmation');
+        }
+        break;
 
-    if (command.type === 'display') {
-      // Show display card
-      setCurrentDisplay(command);
-      addLine('info', `📊 Displaying: ${command.title || 'Information'}`);
-      
-      // Auto-continue after a delay
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      setCurrentDisplay(null);
-      return;
-    }
+      case 'preCheckOverridden':
+        addLine('info', `⚠ Pre-check "${event.override.check}" failed and was ignored by ${event.override.user}${event.override.error ? `: ${event.override.error}` : ''}`);
+        break;
 
-    // Default command execution
-    if (!command.type || command.type === 'command') {
-      if (!command.cmd) {
-        addLine('error', `✗ No command specified for: ${command.description}`);
-        return;
-      }
-      
-      addLine('command', `$ ${command.description}`);
-      
-      const result = await electron.ipcRenderer.invoke('installer:runCommand', command, allVariables);
-      
-      if (result.output) {
-        const outputLines = result.output.trim().split('\n');
-        outputLines.forEach((line: string) => {
-          if (line.trim()) {
-            addLine('output', line);
-          }
-        });
-        
-        // Capture output as variable if specified
-        if (command.captureAs && result.success) {
-          const capturedValue = result.output.trim();
-          setRuntimeVariables(prev => ({
-            ...prev,
-            [command.captureAs]: capturedValue || command.defaultValue || ''
-          }));
-          addLine('variable', `📝 Captured ${command.captureAs}: ${capturedValue}`);
+      case 'stepStart':
+        runningStepsRef.current.set(event.stepIndex, event.name);
+        if (runningStepsRef.current.size > 1) {
+          runningStepsRef.current.forEach((name, stepIndex) => parallelStepsRef.current.set(stepIndex, name));
+          setParallelSteps([...parallelStepsRef.current].map(([stepIndex, name]) => ({ stepIndex, name })));
         }
-      }
-      
-      if (!result.success) {
-        // Use default value if capture failed
-        if (command.captureAs && command.defaultValue) {
-          setRuntimeVariables(prev => ({
-            ...prev,
-            [command.captureAs]: command.defaultValue
-          }));
-          addLine('info', `⚠ Using default value for ${command.captureAs}: ${command.defaultValue}`);
+        setStepStatuses(prev => ({ ...prev, [event.stepIndex]: 'running' }));
+        updateRunningSteps();
+        addLine('step', `\n📦 ${event.name}`, event.stepIndex);
+        addLine('info', event.description, event.stepIndex);
+        break;
+
+      case 'postInstallStart':
+        addLine('info', '\n═══════════════════════════════════════');
+        addLine('step', `📋 Running ${event.count} post-installation task${event.count === 1 ? '' : 's'}...`);
+        break;
+
+      case 'stepSkipped':
+        addLine('info', `⊘ Skipping step: ${event.name} (condition not met)`);
+        break;
+
+      case 'stepComplete':
+        runningStepsRef.current.delete(event.stepIndex);
+        setStepStatuses(prev => ({ ...prev, [event.stepIndex]: 'completed' }));
+        updateRunningSteps();
+        addLine('success', `✓ ${event.name} completed successfully\n`, event.stepIndex);
+        break;
+
+      case 'stepError':
+        runningStepsRef.current.delete(event.stepIndex);
+        setStepStatuses(prev => ({ ...prev, [event.stepIndex]: 'failed' }));
+        updateRunningSteps();
+        addLine('error', `✗ Error in ${event.name}: ${event.error}`, event.stepIndex);
+        break;
+
+      case 'commandSkipped':
+        if (event.reason === 'journal') {
+          addLine('info', `↷ Already completed: ${event.description}`, event.stepIndex);
+        } else if (event.reason === 'declined') {
+          addLine('info', `⊘ Not run: ${event.description} (declined)`, event.stepIndex);
         } else {
-          addLine('error', `✗ Command failed: ${result.error || 'Unknown error'}`);
-          if (!command.safe) {
-            setHasError(true);
-            throw new Error(result.error);
-          }
+          addLine('info', `⊘ Skipping: ${event.description} (condition not met)`, event.stepIndex);
         }
-      } else {
-        addLine('success', `✓ ${command.description} completed`);
-      }
+        break;
+
+      case 'commandStart':
+        addLine('command', `$ ${event.description}`, event.stepIndex);
+        break;
+
+      case 'commandOutput':
+        // Rollback output (command index -1) is not part of the step's pane
+        addOutput(event.stepIndex, event.stream, event.data, event.commandIndex !== -1);
+        break;
+
+      case 'commandRetry':
+        addLine('error', `✗ Attempt ${event.attempt - 1}/${event.maxAttempts} failed: ${event.error}`, event.stepIndex);
+        addLine('info', `↻ Retrying in ${event.delayMs / 1000}s (attempt ${event.attempt}/${event.maxAttempts})`, event.stepIndex);
+        break;
+
+      case 'commandComplete':
+        flushOutput(event.stepIndex, true);
+        if (event.simulated) {
+          addLine('info', `◌ Simulated, not run: ${event.description}`, event.stepIndex);
+        } else if (event.outcome === 'pass') {
+          addLine('success', `✓ ${event.description} completed`, event.stepIndex);
+        } else if (event.outcome === 'warn') {
+          addLine('info', `⚠ ${event.description} failed, continuing: ${event.error || 'Unknown error'}`, event.stepIndex);
+        } else {
+          addLine('error', `✗ Command failed: ${event.error || 'Unknown error'}`, event.stepIndex);
+        }
+        break;
+
+      case 'variableCaptured':
+        capturedRef.current[event.name] = event.value;
+        setVariables(prev => ({ ...prev, [event.name]: event.value }));
+        if (event.fallback) {
+          addLine('info', `⚠ Using default value for ${event.name}: ${event.value}`);
+        } else {
+          addLine('variable', `📝 Captured ${event.name}: ${event.value}`);
+        }
+        break;
+
+      case 'prompt':
+        setStatus('waiting');
+        setCurrentPrompt(event.request);
+        addLine('info', `⌨ User input required: ${event.request.prompt.description || event.request.prompt.message}`);
+        break;
+
+      case 'promptAnswered':
+        setStatus('running');
+        setCurrentPrompt(prev => (prev?.id === event.id ? null : prev));
+        break;
+
+      case 'display':
+        setCurrentDisplay({ title: event.title, content: event.content });
+        addLine('info', `📊 Displaying: ${event.title || 'Information'}`, event.stepIndex);
+        break;
+
+      case 'rollbackStart':
+        addLine('step', `\n↩ Rolling back ${event.count} command(s)`);
+        break;
+
+      case 'rollbackCommandStart':
+        addLine('command', `$ [rollback] ${event.description}`);
+        break;
+
+      case 'rollbackCommandComplete':
+        flushOutput(event.stepIndex, false);
+        setRollbacks(prev => [...prev, event.result]);
+        if (event.result.simulated) {
+          addLine('info', `◌ Rollback simulated, not run: ${event.result.description}`);
+        } else if (event.result.success) {
+          addLine('success', `✓ Rolled back: ${event.result.description}`);
+        } else {
+          addLine('error', `✗ Rollback failed: ${event.result.description} (${event.result.error})`);
+        }
+        break;
+
+      case 'rollbackComplete':
+        addLine(event.success ? 'success' : 'error', event.success
+          ? '✓ Rollback finished'
+          : '✗ Rollback finished with errors; the system may need manual cleanup');
+        break;
+
+      case 'runPaused':
+        setStatus('paused');
+        setPauseRequested(false);
+        addLine('info', '⏸ Installation paused');
+        break;
+
+      case 'runResumed':
+        setStatus('running');
+        addLine('info', '▶ Installation resumed');
+        break;
+
+      case 'runComplete':
+        setPauseRequested(false);
+        setCancelRequested(false);
+        if (event.cancelled) {
+          setStatus('cancelled');
+          addLine('error', '⏹ Installation cancelled by user');
+        } else if (event.success) {
+          setStatus('completed');
+          addLine('success', '');
+          addLine('success', '═══════════════════════════════════════');
+          addLine('success', '✨ Installation completed successfully! ✨');
+          addLine('success', '═══════════════════════════════════════');
+
+          // Display final variables
+          addLine('info', '\n📊 Final Configuration:');
+          Object.entries(capturedRef.current).forEach(([key, value]) => {
+            // The engine masks every secret it captured, whatever its name
+            if (value !== SECRET_MASK) {
+              addLine('variable', `  ${key}: ${value}`);
+            }
+          });
+        } else {
+          setStatus('failed');
+          addLine('error', `Installation failed: ${event.error}`);
+        }
+        break;
     }
   };
 
-  const handlePromptSubmit = (value: any) => {
-    if (currentPrompt?.captureAs) {
-      setRuntimeVariables(prev => ({
-        ...prev,
-        [currentPrompt.captureAs!]: value
-      }));
-      addLine('variable', `📝 Captured ${currentPrompt.captureAs}: ${
-        currentPrompt.promptType === 'password' ? '********' :
-        Array.isArray(value) ? value.join(', ') : value
-      }`);
+  const onRunEvent = useCallback((_: Electron.IpcRendererEvent, event: RunEvent) => {
+    if (attachedRef.current) {
+      applyEvent(event);
     }
+  }, []);
 
-    // Clear prompt first, then unpause to ensure proper sequencing
-    setCurrentPrompt(null);
-    // Update both state and ref to ensure proper synchronization
-    setIsPaused(false);
-    isPausedRef.current = false; // This is what the wait function actually checks
-  };
+  useRendererListener('installer:runEvent', onRunEvent);
 
-  const runInstallation = async () => {
-    setIsInstalling(true);
-    setHasError(false);
-    setLines([]);
-    
-    addLine('info', '🚀 Starting advanced installation process...');
-    addLine('info', '═══════════════════════════════════════');
-    
-    // Save initial config
+  // A resumed run that could not be started
+  const onRunError = useCallback((_: Electron.IpcRendererEvent, message: string) => {
+    addLine('error', `Failed to resume installation: ${message}`);
+    setStatus('failed');
+  }, []);
+
+  useRendererListener('installer:runError', onRunError);
+
+  const startInstallation = async () => {
     await electron.ipcRenderer.invoke('installer:saveUserConfig', config);
-    
-    try {
-      for (const step of steps) {
-        addLine('step', `\n📦 ${step.name}`);
-        addLine('info', step.description);
-
-        for (const command of step.commands) {
-          // Process the command (this will handle prompts internally)
-          await processCommand(command);
-
-          // Double-check: ensure we're not paused before continuing
-          // This handles any edge cases where isPaused might still be true
-          while (isPausedRef.current) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-
-          // Add small delay between commands for visibility
-          await new Promise(resolve => setTimeout(resolve, 300));
-        }
-        
-        addLine('success', `✓ ${step.name} completed successfully\n`);
-      }
-      
-      addLine('success', '');
-      addLine('success', '═══════════════════════════════════════');
-      addLine('success', '✨ Installation completed successfully! ✨');
-      addLine('success', '═══════════════════════════════════════');
-      
-      // Display final variables
-      addLine('info', '\n📊 Final Configuration:');
-      Object.entries(runtimeVariables).forEach(([key, value]) => {
-        if (!key.includes('Password') && !key.includes('passphrase')) {
-          addLine('variable', `  ${key}: ${value}`);
-        }
-      });
-      
-      setInstallComplete(true);
-    } catch (error) {
-      addLine('error', `Installation failed: ${error.message}`);
-      setHasError(true);
-    } finally {
-      setIsInstalling(false);
+    electron.ipcRenderer.invoke('installer:runInstallation').catch((error: Error) => {
+      addLine('error', `Failed to start installation: ${error.message}`);
+      setStatus('failed');
+    });
+  };
+
+  // Attach to the engine: replay an existing run or start a new one
+  const attachToRun = async () => {
+    const state: RunState = await electron.ipcRenderer.invoke('installer:getRunState');
+    attachedRef.current = true;
+
+    if (state.status === 'idle') {
+      setVariables(await electron.ipcRenderer.invoke('installer:getCapturedVariables'));
+      await startInstallation();
+      return;
     }
+
+    setVariables(state.variables);
+    state.events.forEach(applyEvent);
+  };
+
+  const retryInstallation = async () => {
+    await electron.ipcRenderer.invoke('installer:resetRun');
+    lastSeqRef.current = -1;
+    capturedRef.current = {};
+    setLines([]);
+    setVariables(await electron.ipcRenderer.invoke('installer:getCapturedVariables'));
+    setCurrentDisplay(null);
+    setRollbacks([]);
+    setCurrentStep('');
+    runningStepsRef.current.clear();
+    parallelStepsRef.current.clear();
+    partialOutputRef.current = {};
+    setParallelSteps([]);
+    setStepStatuses({});
+    await startInstallation();
   };
 
   useEffect(() => {
-    if (steps.length > 0 && !isInstalling && !installComplete) {
-      // Start installation automatically only once when steps are loaded
-      runInstallation();
+    attachToRun();
+  }, []);
+
+  const pauseInstallation = async () => {
+    if (await electron.ipcRenderer.invoke('installer:pause')) {
+      setPauseRequested(true);
+      addLine('info', '⏸ Pausing after the current command...');
     }
-  }, [steps]);
-
-  const getLineColor = (type: TerminalLine['type']) => {
-    switch (type) {
-      case 'command':
-        return 'text-blue-400';
-      case 'output':
-        return 'text-slate-300';
-      case 'error':
-        return 'text-red-400';
-      case 'success':
-        return 'text-green-400';
-      case 'info':
-        return 'text-yellow-400';
-      case 'step':
-        return 'text-purple-400 font-bold';
-      case 'variable':
-        return 'text-cyan-400';
-      default:
-        return 'text-slate-400';
+  };
+
+  const resumeInstallation = () => {
+    setPauseRequested(false);
+    electron.ipcRenderer.invoke('installer:resume');
+  };
+
+  const cancelInstallation = async () => {
+    if (await electron.ipcRenderer.invoke('installer:cancel')) {
+      setCancelRequested(true);
+      addLine('info', '⏹ Cancelling installation...');
     }
   };
 
+  // Reads the prompt's choices again; the answered prompt is no longer pending and stays closed
+  const refreshPromptOptions = async () => {
+    if (!currentPrompt) return;
+
+    const request: PromptRequest | null = await electron.ipcRenderer.invoke('installer:refreshPromptOptions', currentPrompt.id);
+    if (request) {
+      setCurrentPrompt(prev => (prev?.id === request.id ? request : prev));
+    }
+  };
+
+  const handlePromptSubmit = (value: any) => {
+    if (!currentPrompt) return;
+
+    electron.ipcRenderer.invoke('installer:answerPrompt', currentPrompt.id, value);
+    setCurrentPrompt(null);
+  };
+
+  const allVariables = { ...config, ...variables };
+
   return (
     <div className="p-8 max-w-6xl mx-auto animate-in fade-in duration-300">
       <div className="mb-8">
@@ -340,10 +465,25 @@ export function AdvancedInstallationStage({ config, onNext, onBack }: AdvancedIn
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-8">
           <div className="max-w-2xl w-full">
             <InstallerPrompt
-              prompt={currentPrompt}
+              key={currentPrompt.id}
+              prompt={currentPrompt.prompt}
               variables={allVariables}
               onSubmit={handlePromptSubmit}
+              optionsError={currentPrompt.optionsError}
+              onRefreshOptions={refreshPromptOptions}
             />
+            <div className="flex justify-center mt-4">
+              <Button
+                onClick={cancelInstallation}
+                variant="ghost"
+                size="sm"
+                disabled={cancelRequested}
+                className="text-slate-400 hover:bg-slate-800 hover:text-red-300"
+              >
+                <Square className="w-3 h-3 mr-1" />
+                Cancel installation
+              </Button>
+            </div>
           </div>
         </div>
       )}
@@ -353,7 +493,7 @@ export function AdvancedInstallationStage({ config, onNext, onBack }: AdvancedIn
         <div className="mb-6">
           <InstallerDisplay
             title={currentDisplay.title}
-            content={currentDisplay.content || []}
+            content={currentDisplay.content}
             variables={allVariables}
           />
         </div>
@@ -363,37 +503,81 @@ export function AdvancedInstallationStage({ config, onNext, onBack }: AdvancedIn
         <div className="bg-slate-800 px-4 py-3 border-b border-slate-700 flex items-center gap-2">
           <TerminalIcon className="w-5 h-5 text-blue-400" />
           <span className="text-sm font-medium text-slate-200">Installation Terminal</span>
-          {isPaused && (
+          {isWaiting && (
             <div className="ml-auto flex items-center gap-2 text-yellow-400">
               <MessageSquare className="w-4 h-4" />
               <span className="text-sm">Waiting for input...</span>
             </div>
           )}
-          {isInstalling && !isPaused && (
+          {isPaused && (
+            <div className="ml-auto flex items-center gap-2 text-yellow-400">
+              <Pause className="w-4 h-4" />
+              <span className="text-sm">Paused</span>
+            </div>
+          )}
+          {isInstalling && !isWaiting && !isPaused && (
             <Loader2 className="w-4 h-4 text-blue-400 animate-spin ml-auto" />
           )}
-          {installComplete && !hasError && (
+          {isInstalling && (
+            <div className="flex items-center gap-2">
+              {isPaused ? (
+                <Button
+                  onClick={resumeInstallation}
+                  variant="ghost"
+                  size="sm"
+                  disabled={cancelRequested}
+                  className="h-7 text-slate-300 hover:bg-slate-700 hover:text-white"
+                >
+                  <Play className="w-3 h-3 mr-1" />
+                  Resume
+                </Button>
+              ) : (
+                <Button
+                  onClick={pauseInstallation}
+                  variant="ghost"
+                  size="sm"
+                  disabled={pauseRequested || cancelRequested}
+                  className="h-7 text-slate-300 hover:bg-slate-700 hover:text-white"
+                >
+                  <Pause className="w-3 h-3 mr-1" />
+                  {pauseRequested ? 'Pausing...' : 'Pause'}
+                </Button>
+              )}
+              <Button
+                onClick={cancelInstallation}
+                variant="ghost"
+                size="sm"
+                disabled={cancelRequested}
+                className="h-7 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+              >
+                <Square className="w-3 h-3 mr-1" />
+                {cancelRequested ? 'Cancelling...' : 'Cancel'}
+              </Button>
+            </div>
+          )}
+          {installComplete && (
             <CheckCircle2 className="w-4 h-4 text-green-400 ml-auto" />
           )}
           {hasError && (
             <XCircle className="w-4 h-4 text-red-400 ml-auto" />
           )}
         </div>
-        
-        <div 
+
+        <div
           ref={terminalRef}
           className="p-4 h-[500px] overflow-y-auto font-mono text-sm bg-slate-950/50"
         >
           {lines.map((line) => (
-            <div 
+            <div
               key={line.id}
               className={`py-0.5 ${getLineColor(line.type)} animate-in fade-in slide-in-from-left-2 duration-200`}
             >
+              {line.stepName && <span className="text-slate-500">[{line.stepName}] </span>}
               {line.type === 'command' && <ChevronRight className="w-3 h-3 inline mr-1" />}
               {line.content}
             </div>
           ))}
-          {isInstalling && !isPaused && lines.length > 0 && (
+          {isInstalling && !isWaiting && !isPaused && lines.length > 0 && (
             <div className="flex items-center gap-2 text-blue-400 mt-2">
               <Loader2 className="w-3 h-3 animate-spin" />
               <span className="animate-pulse">Processing...</span>
@@ -402,6 +586,50 @@ export function AdvancedInstallationStage({ config, onNext, onBack }: AdvancedIn
         </div>
       </Card>
 
+      {/* Steps that ran at the same time, each with its own output */}
+      {parallelSteps.length > 0 && (
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          {parallelSteps.map(({ stepIndex, name }) => (
+            <StepPane
+              key={stepIndex}
+              name={name}
+              status={stepStatuses[stepIndex]}
+              lines={lines.filter((line) => line.stepIndex === stepIndex)}
+            />
+          ))}
+        </div>
+      )}
+
+      {hasError && rollbacks.length > 0 && (
+        <Card className="mt-6 bg-slate-800/40 border-slate-700/50 backdrop-blur-sm rounded-xl p-6">
+          <h3 className="text-lg font-medium text-white flex items-center gap-2 mb-4">
+            <Undo2 className="w-5 h-5 text-yellow-400" />
+            Rollback
+          </h3>
+          <div className="space-y-2">
+            {rollbacks.map((rollback, index) => (
+              <div key={index} className="flex items-start justify-between py-2 border-b border-slate-700/50">
+                <div>
+                  <p className="text-slate-200">{rollback.description}</p>
+                  <p className="text-xs text-slate-400">
+                    {rollback.step} · {rollback.scope === 'step' ? 'step rollback' : 'command rollback'}
+                    {rollback.simulated && ' · simulated, not run'}
+                  </p>
+                  {rollback.error && (
+                    <p className="text-xs text-red-400 mt-1">{rollback.error}</p>
+                  )}
+                </div>
+                {rollback.success ? (
+                  <CheckCircle2 className="w-5 h-5 text-green-400 flex-shrink-0" />
+                ) : (
+                  <XCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+                )}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       <div className="flex justify-between mt-8">
         <Button
           onClick={onBack}
@@ -412,16 +640,30 @@ export function AdvancedInstallationStage({ config, onNext, onBack }: AdvancedIn
         >
           Back
         </Button>
-        
-        <Button
-          onClick={onNext}
-          size="lg"
-          disabled={!installComplete || isInstalling || hasError}
-          className="bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-600/25 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg"
-        >
-          {isInstalling ? 'Installing...' : 'Continue to Completion'}
-        </Button>
+
+        <div className="flex gap-4">
+          {hasError && (
+            <Button
+              onClick={retryInstallation}
+              variant="outline"
+              size="lg"
+              className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-white rounded-lg"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Retry Installation
+            </Button>
+          )}
+
+          <Button
+            onClick={onNext}
+            size="lg"
+            disabled={!installComplete}
+            className="bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-600/25 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg"
+          >
+            {isInstalling ? 'Installing...' : 'Continue to Completion'}
+          </Button>
+        </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
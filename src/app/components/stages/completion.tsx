@@ -1,20 +1,90 @@
+import { useState, useEffect } from 'react';
 import { Button } from '@/app/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/app/components/ui/card';
-import { CheckCircle2, FolderOpen, Terminal, FileText, Shield, Server } from 'lucide-react';
-import type { UserConfig } from '@/app/types/installer-config';
+import { CheckCircle2, FolderOpen, Terminal, FileText, ScrollText, Download, ExternalLink, Play, Loader2, XCircle, Copy, FileDown } from 'lucide-react';
+import type { NextAction, UserConfig } from '@/app/types/installer-config';
+import type { CompletionInfo, NextActionResult, RunLogPaths, RunState } from '@/app/types/installer-run';
 
 interface CompletionStageProps {
   config: UserConfig;
   onComplete: () => void;
 }
 
+const ACTION_ICONS: Record<NextAction['type'], typeof Terminal> = {
+  openUrl: ExternalLink,
+  openFolder: FolderOpen,
+  runCommand: Play,
+  showReadme: FileText
+};
+
 export function CompletionStage({ config, onComplete }: CompletionStageProps) {
+  const [log, setLog] = useState<RunLogPaths | null>(null);
+  const [logMessage, setLogMessage] = useState<string | null>(null);
+  const [summaryMessage, setSummaryMessage] = useState<string | null>(null);
+  const [completion, setCompletion] = useState<CompletionInfo | null>(null);
+  const [runningAction, setRunningAction] = useState<number | null>(null);
+  const [actionResults, setActionResults] = useState<Record<number, NextActionResult>>({});
+
+  useEffect(() => {
+    electron.ipcRenderer.invoke('installer:getRunState')
+      .then((state: RunState) => setLog(state.log))
+      .catch((error) => console.error('Failed to load run state:', error));
+    electron.ipcRenderer.invoke('installer:getCompletion')
+      .then(setCompletion)
+      .catch((error) => {
+        console.error('Failed to load completion information:', error);
+        // Show the default completion screen rather than loading forever
+        setCompletion({ summary: { title: 'Installation Summary', groups: [] }, nextActions: [] });
+      });
+  }, []);
+
   const openTerminal = () => {
     // Open a terminal window
     electron.ipcRenderer.invoke('shell:openTerminal', process.cwd());
   };
 
-  if (!config) {
+  const openLog = async () => {
+    if (!log) {
+      return;
+    }
+    const result = await electron.ipcRenderer.invoke('shell:openPath', log.transcript);
+    setLogMessage(result.success ? null : `Could not open log: ${result.error}`);
+  };
+
+  const saveLog = async () => {
+    const result = await electron.ipcRenderer.invoke('installer:saveLog');
+    if (result.success) {
+      setLogMessage(`Log saved to ${result.path}`);
+    } else if (result.error) {
+      setLogMessage(`Could not save log: ${result.error}`);
+    }
+  };
+
+  const copySummary = async () => {
+    const result = await electron.ipcRenderer.invoke('installer:copySummary');
+    setSummaryMessage(result.success ? 'Summary copied to the clipboard' : `Could not copy summary: ${result.error}`);
+  };
+
+  const exportSummary = async () => {
+    const result = await electron.ipcRenderer.invoke('installer:exportSummary');
+    if (result.success) {
+      setSummaryMessage(`Summary saved to ${result.path}`);
+    } else if (result.error) {
+      setSummaryMessage(`Could not export summary: ${result.error}`);
+    }
+  };
+
+  const runAction = async (index: number) => {
+    setRunningAction(index);
+    try {
+      const result: NextActionResult = await electron.ipcRenderer.invoke('installer:runNextAction', index);
+      setActionResults(prev => ({ ...prev, [index]: result }));
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  if (!config || !completion) {
     return (
       <div className="p-8 max-w-4xl mx-auto">
         <div className="text-center">
@@ -30,61 +100,69 @@ export function CompletionStage({ config, onComplete }: CompletionStageProps) {
         <div className="inline-flex items-center justify-center w-20 h-20 bg-green-600/20 rounded-full mb-6">
           <CheckCircle2 className="w-12 h-12 text-green-400" />
         </div>
-        
+
         <h2 className="text-4xl font-bold text-white mb-4">
-          Installation Complete!
+          {completion.title || 'Installation Complete!'}
         </h2>
-        
-        <p className="text-lg text-slate-400 max-w-2xl mx-auto">
-          Your system has been successfully configured and all components have been installed.
+
+        <p className="text-lg text-slate-400 max-w-2xl mx-auto whitespace-pre-line">
+          {completion.message || 'Your system has been successfully configured and all components have been installed.'}
         </p>
       </div>
 
       <div className="space-y-6 mb-8">
-        <Card className="bg-slate-800/40 border-slate-700/50 backdrop-blur-sm rounded-xl">
-          <CardHeader>
-            <CardTitle className="text-white">Installation Summary</CardTitle>
-            <CardDescription className="text-slate-400">
-              Review your installation details
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-3">
-            {config.hostname && (
-              <div className="flex justify-between py-2 border-b border-slate-700">
-                <span className="text-slate-400">Hostname:</span>
-                <span className="text-white font-medium">{config.hostname}</span>
-              </div>
-            )}
-            {config.username && (
-              <div className="flex justify-between py-2 border-b border-slate-700">
-                <span className="text-slate-400">Admin User:</span>
-                <span className="text-white font-medium">{config.username}</span>
-              </div>
-            )}
-            {config.sshPort && (
-              <div className="flex justify-between py-2 border-b border-slate-700">
-                <span className="text-slate-400">SSH Port:</span>
-                <span className="text-white">{config.sshPort}</span>
-              </div>
-            )}
-            {config.enableFirewall !== undefined && (
-              <div className="flex justify-between py-2 border-b border-slate-700">
-                <span className="text-slate-400">Firewall:</span>
-                <span className="text-white">{config.enableFirewall ? 'Enabled' : 'Disabled'}</span>
-              </div>
-            )}
-            {config.timezone && (
-              <div className="flex justify-between py-2 border-b border-slate-700">
-                <span className="text-slate-400">Timezone:</span>
-                <span className="text-white">{config.timezone}</span>
+        {completion.summary.groups.length > 0 && (
+          <Card className="bg-slate-800/40 border-slate-700/50 backdrop-blur-sm rounded-xl">
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle className="text-white">{completion.summary.title}</CardTitle>
+                  <CardDescription className="text-slate-400">
+                    Review your installation details
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={copySummary}
+                    variant="outline"
+                    size="sm"
+                    className="bg-slate-900/50 border-slate-600 text-white hover:bg-slate-800"
+                  >
+                    <Copy className="w-4 h-4 mr-2" />
+                    Copy
+                  </Button>
+                  <Button
+                    onClick={exportSummary}
+                    variant="outline"
+                    size="sm"
+                    className="bg-slate-900/50 border-slate-600 text-white hover:bg-slate-800"
+                  >
+                    <FileDown className="w-4 h-4 mr-2" />
+                    Export…
+                  </Button>
+                </div>
               </div>
-            )}
-            <div className="flex items-center gap-2 pt-2 text-green-400">
-              <Shield className="w-4 h-4" />
-              <span className="text-sm">Security configurations applied</span>
-            </div>
-          </CardContent>
-        </Card>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {completion.summary.groups.map((group, groupIndex) => (
+                <div key={groupIndex} className="space-y-3">
+                  {group.title && (
+                    <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">{group.title}</h3>
+                  )}
+                  {group.rows.map((row, index) => (
+                    <div key={index} className="flex justify-between gap-4 py-2 border-b border-slate-700 last:border-b-0">
+                      <span className="text-slate-400">{row.label}:</span>
+                      <span className={`text-white font-medium text-right break-all ${row.format === 'code' ? 'font-mono text-sm' : ''}`}>{row.value}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+              {summaryMessage && (
+                <p className="text-sm text-slate-400 break-all">{summaryMessage}</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         <Card className="bg-slate-800/40 border-slate-700/50 backdrop-blur-sm rounded-xl">
           <CardHeader>
@@ -94,6 +172,39 @@ export function CompletionStage({ config, onComplete }: CompletionStageProps) {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            {completion.nextActions.map((action) => {
+              const Icon = ACTION_ICONS[action.type];
+              const result = actionResults[action.index];
+              const details = result?.error || result?.output || result?.content;
+
+              return (
+                <div key={action.index} className="space-y-2">
+                  <Button
+                    onClick={() => runAction(action.index)}
+                    disabled={runningAction !== null}
+                    variant="outline"
+                    className="w-full bg-slate-900/50 border-slate-600 text-white hover:bg-slate-800 justify-start h-auto py-2"
+                  >
+                    {runningAction === action.index
+                      ? <Loader2 className="w-4 h-4 mr-2 animate-spin flex-shrink-0" />
+                      : <Icon className="w-4 h-4 mr-2 flex-shrink-0" />}
+                    <span className="text-left">
+                      {action.label}
+                      {action.description && (
+                        <span className="block text-xs text-slate-400 font-normal">{action.description}</span>
+                      )}
+                    </span>
+                  </Button>
+                  {details && (
+                    <pre className={`text-xs rounded-lg p-3 border border-slate-700 bg-slate-950/60 max-h-64 overflow-auto whitespace-pre-wrap ${result.success ? 'text-slate-300' : 'text-red-400'}`}>
+                      {!result.success && <XCircle className="w-3 h-3 inline mr-1" />}
+                      {details}
+                    </pre>
+                  )}
+                </div>
+              );
+            })}
+
             <Button
               onClick={openTerminal}
               variant="outline"
@@ -103,36 +214,29 @@ export function CompletionStage({ config, onComplete }: CompletionStageProps) {
               Open Terminal
             </Button>
 
-            <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-700">
-              <p className="text-sm text-slate-300 mb-2">Your system is now configured with:</p>
-              <ul className="space-y-2 text-sm text-slate-400">
-                <li className="flex items-center gap-2">
-                  <CheckCircle2 className="w-4 h-4 text-green-400" />
-                  SSH keys generated and configured
-                </li>
-                <li className="flex items-center gap-2">
-                  <CheckCircle2 className="w-4 h-4 text-green-400" />
-                  Security hardening applied
-                </li>
-                {config.enableFirewall && (
-                  <li className="flex items-center gap-2">
-                    <CheckCircle2 className="w-4 h-4 text-green-400" />
-                    Firewall configured and enabled
-                  </li>
-                )}
-                <li className="flex items-center gap-2">
-                  <CheckCircle2 className="w-4 h-4 text-green-400" />
-                  System timezone configured
-                </li>
-              </ul>
-            </div>
-
-            <div className="flex items-start gap-3 text-sm text-slate-400">
-              <FileText className="w-4 h-4 mt-0.5 flex-shrink-0" />
-              <p>
-                Check the README.md file in your project directory for detailed documentation and usage instructions.
-              </p>
-            </div>
+            {log && (
+              <div className="grid grid-cols-2 gap-4">
+                <Button
+                  onClick={openLog}
+                  variant="outline"
+                  className="bg-slate-900/50 border-slate-600 text-white hover:bg-slate-800 justify-start"
+                >
+                  <ScrollText className="w-4 h-4 mr-2" />
+                  Open Log
+                </Button>
+                <Button
+                  onClick={saveLog}
+                  variant="outline"
+                  className="bg-slate-900/50 border-slate-600 text-white hover:bg-slate-800 justify-start"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Save Log As…
+                </Button>
+              </div>
+            )}
+            {logMessage && (
+              <p className="text-sm text-slate-400 break-all">{logMessage}</p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -145,10 +249,11 @@ export function CompletionStage({ config, onComplete }: CompletionStageProps) {
         >
           Finish Installation
         </Button>
-        
+
         <Button
-          onClick={() => {
+          onClick={async () => {
             // Reset and start new installation
+            await electron.ipcRenderer.invoke('installer:resetRun');
             window.location.reload();
           }}
           variant="outline"
@@ -4,20 +4,70 @@ import { Input } from '@/app/components/ui/input';
 import { Label } from '@/app/components/ui/label-simple';
 import { Switch } from '@/app/components/ui/switch-simple';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/app/components/ui/card';
-import { AlertCircle, Eye, EyeOff, Shield, Key, Server, Clock } from 'lucide-react';
-import type { InstallerConfig, ConfigField, UserConfig } from '@/app/types/installer-config';
+import { KeyValueListInput, MultiSelectInput, PathInput } from '@/app/components/config-field-inputs';
+import { AlertCircle, Eye, EyeOff, Shield, Key, Server, Clock, Settings, Lock, User, Network, Globe, Database, HardDrive, Package, Terminal, RefreshCw } from 'lucide-react';
+import type { InstallerConfig, ConfigField, ConfigFieldType, ConfigIcon, UserConfig } from '@/app/types/installer-config';
+import type { LoadedOptions } from '@/app/types/installer-run';
+import {
+  getConfigPages,
+  getFieldDefaults,
+  getPageFieldIds,
+  getVisibleFields,
+  getVisiblePages,
+  getVisibleValues,
+  updateFieldDefaults,
+  validateConfigFields
+} from '@/app/lib/config-fields';
+
+export const CONFIG_ICONS: Record<ConfigIcon, React.ElementType> = {
+  settings: Settings,
+  server: Server,
+  shield: Shield,
+  key: Key,
+  lock: Lock,
+  user: User,
+  network: Network,
+  globe: Globe,
+  database: Database,
+  storage: HardDrive,
+  clock: Clock,
+  package: Package,
+  terminal: Terminal
+};
+
+const ICON_COLORS: Partial<Record<ConfigIcon, string>> = {
+  shield: 'text-green-400',
+  clock: 'text-purple-400'
+};
+
+// Input attributes of the field types entered as formatted text
+const TYPED_INPUTS: Partial<Record<ConfigFieldType, { type: string; placeholder: string; mono?: boolean }>> = {
+  ipv4: { type: 'text', placeholder: '192.168.1.10', mono: true },
+  ipv6: { type: 'text', placeholder: '2001:db8::1', mono: true },
+  cidr: { type: 'text', placeholder: '10.0.0.0/24', mono: true },
+  port: { type: 'number', placeholder: '8080' },
+  email: { type: 'email', placeholder: 'admin@example.com' },
+  url: { type: 'url', placeholder: 'https://example.com', mono: true }
+};
 
 interface DynamicConfigurationStageProps {
+  pageId: string;
+  initialConfig: UserConfig; // Values entered before, e.g. when coming back from a later stage
   onConfigChange: (config: UserConfig) => void;
   onNext: () => void;
+  onBack?: () => void; // Set on every page but the first
 }
 
-export function DynamicConfigurationStage({ onConfigChange, onNext }: DynamicConfigurationStageProps) {
+export function DynamicConfigurationStage({ pageId, initialConfig, onConfigChange, onNext, onBack }: DynamicConfigurationStageProps) {
   const [config, setConfig] = useState<UserConfig>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showPasswords, setShowPasswords] = useState<Record<string, boolean>>({});
+  // Fields the user changed; the others keep following their template default
+  const [edited, setEdited] = useState<Set<string>>(new Set());
   const [installerConfig, setInstallerConfig] = useState<InstallerConfig | null>(null);
   const [loading, setLoading] = useState(true);
+  // Choices read for fields with `optionsFrom`, by field id
+  const [fieldOptions, setFieldOptions] = useState<Record<string, LoadedOptions & { loading: boolean }>>({});
 
   useEffect(() => {
     loadInstallerConfig();
@@ -28,17 +78,11 @@ export function DynamicConfigurationStage({ onConfigChange, onNext }: DynamicCon
       const configData = await electron.ipcRenderer.invoke('installer:getConfig');
       setInstallerConfig(configData);
       
-      // Initialize default values
-      const defaults: UserConfig = {};
-      configData.configFields.forEach((field: ConfigField) => {
-        if (field.default !== undefined) {
-          defaults[field.id] = field.default;
-        } else if (field.type === 'boolean') {
-          defaults[field.id] = false;
-        }
-      });
+      // Initialize default values; values entered before count as edited
+      const defaults = { ...getFieldDefaults(configData.configFields), ...initialConfig };
       setConfig(defaults);
-      onConfigChange(defaults);
+      setEdited(new Set(Object.keys(initialConfig)));
+      onConfigChange(getVisibleValues(configData.configFields, defaults, configData.configPages));
     } catch (error) {
       console.error('Failed to load installer config:', error);
     } finally {
@@ -47,9 +91,13 @@ export function DynamicConfigurationStage({ onConfigChange, onNext }: DynamicCon
   };
 
   const handleInputChange = (fieldId: string, value: any) => {
-    const newConfig = { ...config, [fieldId]: value };
+    const fields = installerConfig?.configFields ?? [];
+    const newEdited = new Set(edited).add(fieldId);
+    const newConfig = updateFieldDefaults(fields, { ...config, [fieldId]: value }, newEdited);
+    setEdited(newEdited);
     setConfig(newConfig);
-    onConfigChange(newConfig);
+    // Hidden fields keep their value in the form, but are not part of the configuration
+    onConfigChange(getVisibleValues(fields, newConfig, installerConfig?.configPages));
     
     // Clear error for this field
     if (errors[fieldId]) {
@@ -68,52 +116,43 @@ export function DynamicConfigurationStage({ onConfigChange, onNext }: DynamicCon
     }));
   };
 
+  // The pages shown for the values entered so far, and the one on screen
+  const getPages = (installerConfig: InstallerConfig) => {
+    const allPages = getConfigPages(installerConfig);
+    const visibleValues = getVisibleValues(installerConfig.configFields, config, installerConfig.configPages);
+    const pages = getVisiblePages(allPages, visibleValues);
+    return { pages, page: pages.find((page) => page.id === pageId) ?? pages[0] ?? allPages[0] };
+  };
+
+  const loadFieldOptions = async (field: ConfigField, refresh = false) => {
+    setFieldOptions(prev => ({ ...prev, [field.id]: { options: prev[field.id]?.options ?? [], loading: true } }));
+    try {
+      const loaded: LoadedOptions = await electron.ipcRenderer.invoke('installer:loadFieldOptions', field.id, config, refresh);
+      setFieldOptions(prev => ({ ...prev, [field.id]: { ...loaded, loading: false } }));
+    } catch (error) {
+      setFieldOptions(prev => ({ ...prev, [field.id]: { options: field.options ?? [], error: error.message, loading: false } }));
+    }
+  };
+
+  // Fields read their choices when their page opens, with the values entered on earlier pages
+  useEffect(() => {
+    if (!installerConfig) return;
+
+    const pageFieldIds = getPageFieldIds(getPages(installerConfig).page);
+    installerConfig.configFields
+      .filter(field => field.optionsFrom && pageFieldIds.includes(field.id))
+      .forEach(field => loadFieldOptions(field));
+  }, [installerConfig, pageId]);
+
+  const optionsOf = (field: ConfigField) => (field.optionsFrom ? fieldOptions[field.id]?.options ?? [] : field.options ?? []);
+
+  // Only the fields of the current page are checked; later pages are validated when they are shown
   const validate = () => {
     if (!installerConfig) return false;
     
-    const newErrors: Record<string, string> = {};
-    
-    installerConfig.configFields.forEach(field => {
-      const value = config[field.id];
-      
-      // Required field check
-      if (field.required && (!value || value === '')) {
-        newErrors[field.id] = `${field.label} is required`;
-        return;
-      }
-      
-      // Type-specific validation
-      if (value) {
-        // Text validation with regex
-        if (field.type === 'text' && field.validation) {
-          const regex = new RegExp(field.validation);
-          if (!regex.test(value)) {
-            newErrors[field.id] = `Invalid format for ${field.label}`;
-          }
-        }
-        
-        // Password length validation
-        if (field.type === 'password') {
-          if (field.minLength && value.length < field.minLength) {
-            newErrors[field.id] = `Minimum ${field.minLength} characters required`;
-          }
-          if (field.maxLength && value.length > field.maxLength) {
-            newErrors[field.id] = `Maximum ${field.maxLength} characters allowed`;
-          }
-        }
-        
-        // Number validation
-        if (field.type === 'number') {
-          const num = Number(value);
-          if (field.min !== undefined && num < field.min) {
-            newErrors[field.id] = `Minimum value is ${field.min}`;
-          }
-          if (field.max !== undefined && num > field.max) {
-            newErrors[field.id] = `Maximum value is ${field.max}`;
-          }
-        }
-      }
-    });
+    const pageFieldIds = getPageFieldIds(getPages(installerConfig).page);
+    const allErrors = validateConfigFields(installerConfig.configFields, config, installerConfig.configPages);
+    const newErrors = Object.fromEntries(Object.entries(allErrors).filter(([fieldId]) => pageFieldIds.includes(fieldId)));
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -259,13 +298,14 @@ export function DynamicConfigurationStage({ onConfigChange, onNext }: DynamicCon
               onChange={(e) => handleInputChange(field.id, e.target.value)}
               className="w-full px-3 py-2 bg-slate-900/50 border border-slate-600 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
-              <option value="">Select...</option>
-              {field.options?.map(option => (
+              <option value="">{fieldOptions[field.id]?.loading ? 'Loading...' : 'Select...'}</option>
+              {optionsOf(field).map(option => (
                 <option key={option.value} value={option.value}>
                   {option.label}
                 </option>
               ))}
             </select>
+            {renderOptionsSource(field)}
             {field.description && (
               <p className="text-sm text-slate-400">{field.description}</p>
             )}
@@ -278,11 +318,123 @@ export function DynamicConfigurationStage({ onConfigChange, onNext }: DynamicCon
           </div>
         );
 
+      case 'textarea':
+        return renderLabeled(field, error, (
+          <textarea
+            id={field.id}
+            value={value}
+            onChange={(e) => handleInputChange(field.id, e.target.value)}
+            placeholder={field.placeholder}
+            rows={field.rows ?? 4}
+            className={`w-full px-3 py-2 bg-slate-900/50 border border-slate-600 text-white text-sm rounded-md placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              error ? 'border-red-500' : ''
+            }`}
+          />
+        ));
+
+      case 'ipv4':
+      case 'ipv6':
+      case 'cidr':
+      case 'port':
+      case 'email':
+      case 'url': {
+        const input = TYPED_INPUTS[field.type];
+        return renderLabeled(field, error, (
+          <Input
+            id={field.id}
+            type={input.type}
+            value={value}
+            onChange={(e) => handleInputChange(field.id, e.target.value)}
+            placeholder={field.placeholder ?? input.placeholder}
+            min={field.type === 'port' ? field.min ?? 1 : undefined}
+            max={field.type === 'port' ? field.max ?? 65535 : undefined}
+            className={`bg-slate-900/50 border-slate-600 text-white placeholder:text-slate-500 ${
+              input.mono ? 'font-mono' : ''
+            } ${error ? 'border-red-500' : ''}`}
+          />
+        ));
+      }
+
+      case 'directory':
+      case 'file':
+        return renderLabeled(field, error, (
+          <PathInput field={field} value={value} invalid={Boolean(error)} onChange={(path) => handleInputChange(field.id, path)} />
+        ));
+
+      case 'multiselect':
+        return renderLabeled(field, error, (
+          <>
+            <MultiSelectInput
+              field={{ ...field, options: optionsOf(field) }}
+              value={config[field.id] ?? []}
+              invalid={Boolean(error)}
+              onChange={(selected) => handleInputChange(field.id, selected)}
+            />
+            {renderOptionsSource(field)}
+          </>
+        ));
+
+      case 'keyValueList':
+        return renderLabeled(field, error, (
+          <KeyValueListInput field={field} value={config[field.id] ?? []} invalid={Boolean(error)} onChange={(pairs) => handleInputChange(field.id, pairs)} />
+        ));
+
       default:
         return null;
     }
   };
 
+  // How reading the choices of a field with `optionsFrom` went, and a button to read them again
+  const renderOptionsSource = (field: ConfigField) => {
+    if (!field.optionsFrom) return null;
+
+    const loaded = fieldOptions[field.id];
+    return (
+      <div className="flex items-center justify-between gap-2 text-xs">
+        {loaded?.error ? (
+          <span className="flex items-center gap-1 text-amber-400">
+            <AlertCircle className="w-3 h-3 flex-shrink-0" />
+            Could not read the choices: {loaded.error}
+          </span>
+        ) : (
+          <span className="text-slate-400">
+            {!loaded || loaded.loading ? 'Reading choices...' : `${loaded.options.length} available`}
+          </span>
+        )}
+        <Button
+          type="button"
+          onClick={() => loadFieldOptions(field, true)}
+          disabled={loaded?.loading}
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-slate-400 hover:bg-slate-800 hover:text-white"
+        >
+          <RefreshCw className={`w-3 h-3 mr-1 ${loaded?.loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+    );
+  };
+
+  // Label, description and error around the input of the newer field types
+  const renderLabeled = (field: ConfigField, error: string | undefined, control: React.ReactNode) => (
+    <div key={field.id} className="space-y-2">
+      <Label htmlFor={field.id} className="text-slate-200">
+        {field.label}
+      </Label>
+      {control}
+      {field.description && !error && (
+        <p className="text-sm text-slate-400">{field.description}</p>
+      )}
+      {error && (
+        <div className="flex items-center gap-2 text-red-400 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="p-8 max-w-4xl mx-auto">
@@ -305,87 +457,78 @@ export function DynamicConfigurationStage({ onConfigChange, onNext }: DynamicCon
     );
   }
 
-  // Group fields by category
-  const securityFields = installerConfig.configFields.filter(f => 
-    f.id.includes('Password') || f.id.includes('ssh') || f.id.includes('luks')
-  );
-  const systemFields = installerConfig.configFields.filter(f => 
-    !securityFields.includes(f) && f.type !== 'boolean'
-  );
-  const optionFields = installerConfig.configFields.filter(f => 
-    f.type === 'boolean' && !securityFields.includes(f)
-  );
+  // Sections of the current page, with the fields they show
+  const { pages, page } = getPages(installerConfig);
+  const pageNumber = pages.indexOf(page);
+  const nextPage = pages[pageNumber + 1];
+  const visibleFields = getVisibleFields(installerConfig.configFields, config, installerConfig.configPages);
+  const sections = page.sections
+    .map(section => ({
+      ...section,
+      fields: section.fields
+        .map(fieldId => visibleFields.find(field => field.id === fieldId))
+        .filter((field): field is ConfigField => field !== undefined)
+    }))
+    .filter(section => section.fields.length > 0);
 
   return (
     <div className="p-8 max-w-4xl mx-auto animate-in fade-in duration-300">
       <div className="mb-8">
-        <h2 className="text-3xl font-bold text-white mb-2">System Configuration</h2>
-        <p className="text-slate-400">Configure your system settings and security parameters</p>
+        {pages.length > 1 && (
+          <p className="text-sm text-blue-400 mb-1">Page {pageNumber + 1} of {pages.length}</p>
+        )}
+        <h2 className="text-3xl font-bold text-white mb-2">{page.title}</h2>
+        {page.description && (
+          <p className="text-slate-400">{page.description}</p>
+        )}
       </div>
 
       <div className="space-y-6">
-        {/* System Settings */}
-        {systemFields.length > 0 && (
-          <Card className="bg-slate-800/40 border-slate-700/50 backdrop-blur-sm rounded-xl">
-            <CardHeader>
-              <CardTitle className="text-white flex items-center gap-2">
-                <Server className="w-5 h-5 text-blue-400" />
-                System Settings
-              </CardTitle>
-              <CardDescription className="text-slate-400">
-                Basic system configuration
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {systemFields.map(renderField)}
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Security Settings */}
-        {securityFields.length > 0 && (
-          <Card className="bg-slate-800/40 border-slate-700/50 backdrop-blur-sm rounded-xl">
-            <CardHeader>
-              <CardTitle className="text-white flex items-center gap-2">
-                <Shield className="w-5 h-5 text-green-400" />
-                Security Configuration
-              </CardTitle>
-              <CardDescription className="text-slate-400">
-                Passwords and encryption settings
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {securityFields.map(renderField)}
-            </CardContent>
-          </Card>
-        )}
+        {sections.map((section, index) => {
+          const Icon = section.icon && CONFIG_ICONS[section.icon];
 
-        {/* Additional Options */}
-        {optionFields.length > 0 && (
-          <Card className="bg-slate-800/40 border-slate-700/50 backdrop-blur-sm rounded-xl">
-            <CardHeader>
-              <CardTitle className="text-white flex items-center gap-2">
-                <Clock className="w-5 h-5 text-purple-400" />
-                Additional Options
-              </CardTitle>
-              <CardDescription className="text-slate-400">
-                Optional features and settings
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {optionFields.map(renderField)}
-            </CardContent>
-          </Card>
-        )}
+          return (
+            <Card key={index} className="bg-slate-800/40 border-slate-700/50 backdrop-blur-sm rounded-xl">
+              {(section.title || section.description) && (
+                <CardHeader>
+                  {section.title && (
+                    <CardTitle className="text-white flex items-center gap-2">
+                      {Icon && <Icon className={`w-5 h-5 ${ICON_COLORS[section.icon] ?? 'text-blue-400'}`} />}
+                      {section.title}
+                    </CardTitle>
+                  )}
+                  {section.description && (
+                    <CardDescription className="text-slate-400">
+                      {section.description}
+                    </CardDescription>
+                  )}
+                </CardHeader>
+              )}
+              <CardContent className={`space-y-4 ${section.title || section.description ? '' : 'pt-6'}`}>
+                {section.fields.map(renderField)}
+              </CardContent>
+            </Card>
+          );
+        })}
       </div>
 
-      <div className="flex justify-end mt-8">
+      <div className={`flex mt-8 ${onBack ? 'justify-between' : 'justify-end'}`}>
+        {onBack && (
+          <Button
+            onClick={onBack}
+            variant="outline"
+            size="lg"
+            className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-white rounded-lg"
+          >
+            Back
+          </Button>
+        )}
         <Button
           onClick={handleNext}
           size="lg"
           className="bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-600/25 rounded-lg"
         >
-          Continue to Pre-Installation Checks
+          {nextPage ? `Continue to ${nextPage.title}` : 'Continue to Pre-Installation Checks'}
         </Button>
       </div>
     </div>
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/app/components/ui/button';
 import { Card } from '@/app/components/ui/card';
-import { CheckCircle2, XCircle, Loader2, AlertTriangle, RefreshCw } from 'lucide-react';
+import { CheckCircle2, XCircle, Loader2, AlertTriangle, RefreshCw, ShieldAlert } from 'lucide-react';
 import type { PreCheck } from '@/app/types/installer-config';
 
 interface PreChecksStageProps {
@@ -11,16 +11,24 @@ interface PreChecksStageProps {
 
 interface CheckResult {
   name: string;
-  status: 'pending' | 'running' | 'success' | 'warning' | 'error';
+  status: 'pending' | 'running' | 'success' | 'warning' | 'error' | 'overridden';
   message?: string;
   output?: string;
+  error?: string;
+  captured?: { name: string; value: string };
+  measured?: string;
+  required?: string;
+  remediation?: string;
 }
 
 export function PreChecksStage({ onNext, onBack }: PreChecksStageProps) {
   const [checks, setChecks] = useState<PreCheck[]>([]);
   const [checkResults, setCheckResults] = useState<CheckResult[]>([]);
-  const [isRunning, setIsRunning] = useState(false);
-  const [allChecksPassed, setAllChecksPassed] = useState(false);
+
+  // Checks run side by side; Next is enabled once none is running or failing
+  const isRunning = checkResults.some(r => r.status === 'running');
+  const allChecksPassed = checkResults.length > 0 && checkResults.every(r => r.status === 'success' || r.status === 'warning' || r.status === 'overridden');
+  const overriddenCount = checkResults.filter(r => r.status === 'overridden').length;
 
   useEffect(() => {
     loadPreChecks();
@@ -39,78 +47,73 @@ export function PreChecksStage({ onNext, onBack }: PreChecksStageProps) {
     }
   };
 
+  const updateResult = (index: number, checkResult: CheckResult) => {
+    setCheckResults(prev => {
+      const updated = [...prev];
+      updated[index] = checkResult;
+      return updated;
+    });
+  };
+
+  const runCheck = async (index: number) => {
+    const check = checks[index];
+    updateResult(index, { name: check.name, status: 'running' });
+
+    try {
+      const result = await electron.ipcRenderer.invoke('installer:runPreCheck', check);
+
+      // Determine status based on result
+      let status: CheckResult['status'] = 'success';
+      let message = 'Check passed';
+
+      if (result.outcome === 'fail') {
+        status = 'error';
+        message = check.errorMessage || 'Check failed';
+      } else if (result.simulated) {
+        status = 'warning';
+        message = 'Simulated: the command was not run because of the execution mode';
+      } else if (result.outcome === 'warn') {
+        status = 'warning';
+        message = result.error ? `${result.warning} (${result.error})` : result.warning;
+      }
+
+      updateResult(index, {
+        name: check.name,
+        status,
+        message,
+        output: result.output,
+        error: result.error,
+        captured: result.captured,
+        measured: result.measured,
+        required: result.required,
+        remediation: result.remediation
+      });
+    } catch (error) {
+      updateResult(index, {
+        name: check.name,
+        status: 'error',
+        message: `Failed to run check: ${error.message}`,
+        error: error.message,
+      });
+    }
+  };
+
   const runPreChecks = async () => {
-    setIsRunning(true);
-    setAllChecksPassed(false);
-    
-    const results: CheckResult[] = [];
-    
-    for (let i = 0; i < checks.length; i++) {
-      const check = checks[i];
-      
-      // Update status to running
-      setCheckResults(prev => {
-        const updated = [...prev];
-        updated[i] = { ...updated[i], status: 'running' };
-        return updated;
+    await Promise.all(checks.map((_, index) => runCheck(index)));
+  };
+
+  const overrideCheck = async (index: number) => {
+    const result = checkResults[index];
+    try {
+      const override = await electron.ipcRenderer.invoke('installer:overridePreCheck', result.name, result.error);
+      updateResult(index, {
+        ...result,
+        status: 'overridden',
+        message: `Ignored by ${override.user}: ${result.message}`
       });
-      
-      try {
-        // Execute the check
-        const result = await electron.ipcRenderer.invoke('installer:runPreCheck', check);
-        
-        // Determine status based on result
-        let status: CheckResult['status'] = 'success';
-        let message = 'Check passed';
-        
-        if (!result.success) {
-          status = 'error';
-          message = check.errorMessage || 'Check failed';
-        } else if (result.warning) {
-          status = 'warning';
-          message = result.warning;
-        }
-        
-        const checkResult: CheckResult = {
-          name: check.name,
-          status,
-          message,
-          output: result.output
-        };
-        
-        results.push(checkResult);
-        
-        // Update this specific check result
-        setCheckResults(prev => {
-          const updated = [...prev];
-          updated[i] = checkResult;
-          return updated;
-        });
-        
-        // Add small delay for visual effect
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-      } catch (error) {
-        const checkResult: CheckResult = {
-          name: check.name,
-          status: 'error',
-          message: `Failed to run check: ${error.message}`,
-        };
-        
-        results.push(checkResult);
-        
-        setCheckResults(prev => {
-          const updated = [...prev];
-          updated[i] = checkResult;
-          return updated;
-        });
-      }
+    } catch (error) {
+      console.error('Failed to override pre-check:', error);
     }
-    
-    // Check if all passed (warnings are OK)
-    const passed = results.every(r => r.status === 'success' || r.status === 'warning');
-    setAllChecksPassed(passed);
-    setIsRunning(false);
   };
 
   useEffect(() => {
@@ -132,6 +135,8 @@ export function PreChecksStage({ onNext, onBack }: PreChecksStageProps) {
         return <AlertTriangle className="w-5 h-5 text-yellow-400" />;
       case 'error':
         return <XCircle className="w-5 h-5 text-red-400" />;
+      case 'overridden':
+        return <ShieldAlert className="w-5 h-5 text-orange-400" />;
     }
   };
 
@@ -147,6 +152,8 @@ export function PreChecksStage({ onNext, onBack }: PreChecksStageProps) {
         return 'text-yellow-400';
       case 'error':
         return 'text-red-400';
+      case 'overridden':
+        return 'text-orange-400';
     }
   };
 
@@ -189,6 +196,8 @@ export function PreChecksStage({ onNext, onBack }: PreChecksStageProps) {
                     ? 'bg-red-500/10 border border-red-500/20'
                     : result.status === 'warning'
                       ? 'bg-yellow-500/10 border border-yellow-500/20'
+                      : result.status === 'overridden'
+                        ? 'bg-orange-500/10 border border-orange-500/20'
                       : result.status === 'success'
                         ? 'bg-green-500/10 border border-green-500/20'
                         : 'bg-slate-800/50 border border-slate-700/50'
@@ -208,7 +217,25 @@ export function PreChecksStage({ onNext, onBack }: PreChecksStageProps) {
                         {result.message}
                       </p>
                     )}
-                    {result.output && result.status === 'error' && (
+                    {result.measured && (
+                      <p className="text-xs mt-1 text-slate-400">
+                        Measured: <span className="font-mono text-slate-300">{result.measured}</span>
+                        {result.required && (
+                          <> · Required: <span className="font-mono text-slate-300">{result.required}</span></>
+                        )}
+                      </p>
+                    )}
+                    {result.remediation && result.status !== 'success' && (
+                      <p className="text-xs mt-1 text-slate-300">
+                        <span className="font-medium">How to fix:</span> {result.remediation}
+                      </p>
+                    )}
+                    {result.captured && result.status !== 'error' && (
+                      <p className="text-xs mt-1 font-mono text-cyan-400">
+                        {`{{${result.captured.name}}}`} = {result.captured.value || '<empty>'}
+                      </p>
+                    )}
+                    {result.output && result.status === 'error' && !result.measured && (
                       <div className="mt-2 p-2 bg-slate-950/50 rounded text-xs font-mono text-slate-400">
                         {result.output}
                       </div>
@@ -220,6 +247,29 @@ export function PreChecksStage({ onNext, onBack }: PreChecksStageProps) {
                       Checking...
                     </span>
                   )}
+                  {result.status !== 'running' && result.status !== 'pending' && (
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {result.status === 'error' && checks[index]?.overridable && (
+                        <Button
+                          onClick={() => overrideCheck(index)}
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-orange-300 hover:bg-orange-500/10 hover:text-orange-200"
+                        >
+                          Ignore and continue
+                        </Button>
+                      )}
+                      <Button
+                        onClick={() => runCheck(index)}
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-slate-300 hover:bg-slate-700 hover:text-white"
+                      >
+                        <RefreshCw className="w-3 h-3 mr-1" />
+                        Re-run
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -236,7 +286,11 @@ export function PreChecksStage({ onNext, onBack }: PreChecksStageProps) {
               {allChecksPassed ? (
                 <div className="flex items-center justify-center gap-2 text-green-400">
                   <CheckCircle2 className="w-5 h-5" />
-                  <span className="font-medium">All checks passed! Ready to proceed.</span>
+                  <span className="font-medium">
+                    {overriddenCount > 0
+                      ? `Ready to proceed with ${overriddenCount} ignored check${overriddenCount === 1 ? '' : 's'}.`
+                      : 'All checks passed! Ready to proceed.'}
+                  </span>
                 </div>
               ) : (
                 <div className="flex items-center justify-center gap-2 text-red-400">
@@ -0,0 +1,291 @@
+import { evaluateExpression } from '@/app/lib/expression';
+import { isAbsolutePath, isCidr, isEmail, isIPv4, isIPv6, isPort, isUrl } from '@/app/lib/formats';
+import { renderTemplate } from '@/app/lib/template';
+import type {
+  ConfigField,
+  ConfigFieldType,
+  ConfigPage,
+  ConfigSection,
+  InstallCommand,
+  InstallerConfig,
+  KeyValuePair,
+  UserConfig
+} from '@/app/types/installer-config';
+
+/** Whether a field's default is a template such as `"{{username}}-box"`, computed from other fields. */
+export function hasTemplateDefault (field: ConfigField): boolean {
+  return typeof field.default === 'string' && field.default.includes('{{');
+}
+
+/** A field's default; a template default is rendered from `values`, and is empty while a field it names has no value. */
+export function renderFieldDefault (field: ConfigField, values: UserConfig): UserConfig[string] {
+  if (!hasTemplateDefault(field)) {
+    return field.default;
+  }
+
+  try {
+    return renderTemplate(field.default, values, { strict: true });
+  } catch {
+    return '';
+  }
+}
+
+/** Initial values for the configuration form: field defaults, with switches off and lists empty. */
+export function getFieldDefaults (fields: ConfigField[]): UserConfig {
+  const defaults: UserConfig = {};
+
+  for (const field of fields) {
+    if (field.default !== undefined) {
+      defaults[field.id] = renderFieldDefault(field, defaults);
+    } else if (field.type === 'boolean') {
+      defaults[field.id] = false;
+    } else if (field.type === 'multiselect' || field.type === 'keyValueList') {
+      defaults[field.id] = [];
+    }
+  }
+
+  return defaults;
+}
+
+/**
+ * Re-renders template defaults after a change, so a field keeps following
+ * the fields it names until the user edits it. Fields listed in `edited`
+ * keep their value.
+ */
+export function updateFieldDefaults (fields: ConfigField[], values: UserConfig, edited: ReadonlySet<string>): UserConfig {
+  const updated: UserConfig = { ...values };
+
+  for (const field of fields) {
+    if (hasTemplateDefault(field) && !edited.has(field.id)) {
+      updated[field.id] = renderFieldDefault(field, updated);
+    }
+  }
+
+  return updated;
+}
+
+// A field condition that cannot be evaluated does not hold
+function holds (condition: string, values: UserConfig): boolean {
+  try {
+    return Boolean(evaluateExpression(condition, values));
+  } catch {
+    return false;
+  }
+}
+
+/** Whether a field is shown: it has no `visibleWhen`, or its `visibleWhen` holds for `values`. */
+export function isFieldVisible (field: ConfigField, values: UserConfig): boolean {
+  return !field.visibleWhen || holds(field.visibleWhen, values);
+}
+
+/** Whether a page is shown: it has no `visibleWhen`, or its `visibleWhen` holds for `values`. */
+export function isPageVisible (page: ConfigPage, values: UserConfig): boolean {
+  return !page.visibleWhen || holds(page.visibleWhen, values);
+}
+
+/**
+ * The fields that are shown for `values`: a field is hidden by its own
+ * `visibleWhen` or by that of the page it is on. Fields are checked in
+ * order, and the value of a hidden field is left out of the conditions
+ * after it, so a field that depends on a hidden one is hidden too.
+ */
+export function getVisibleFields (fields: ConfigField[], values: UserConfig, pages: ConfigPage[] = []): ConfigField[] {
+  const scope: UserConfig = { ...values };
+  const pageOf = new Map(pages.flatMap((page) => page.sections.flatMap((section) => section.fields.map((id) => [id, page] as const))));
+
+  return fields.filter((field) => {
+    const page = pageOf.get(field.id);
+    const visible = (!page || isPageVisible(page, scope)) && isFieldVisible(field, scope);
+    if (!visible) {
+      delete scope[field.id];
+    }
+    return visible;
+  });
+}
+
+/** `values` without the values of hidden fields; these are what install steps see. */
+export function getVisibleValues (fields: ConfigField[], values: UserConfig, pages: ConfigPage[] = []): UserConfig {
+  const visibleIds = new Set(getVisibleFields(fields, values, pages).map((field) => field.id));
+  return Object.fromEntries(Object.entries(values).filter(([id]) => visibleIds.has(id) || !fields.some((field) => field.id === id)));
+}
+
+// Without config pages, fields are sorted by their id and type
+const isSecurityField = (field: ConfigField) => field.id.includes('Password') || field.id.includes('ssh') || field.id.includes('luks');
+
+/**
+ * The config's pages. Without `configPages`, every field is on one page,
+ * in system, security and option sections.
+ */
+export function getConfigPages (config: InstallerConfig): ConfigPage[] {
+  if (config.configPages?.length) {
+    return config.configPages;
+  }
+
+  const fieldIds = (include: (field: ConfigField) => boolean) => config.configFields.filter(include).map((field) => field.id);
+  const sections: ConfigSection[] = [
+    {
+      title: 'System Settings',
+      description: 'Basic system configuration',
+      icon: 'server',
+      fields: fieldIds((field) => !isSecurityField(field) && field.type !== 'boolean')
+    },
+    {
+      title: 'Security Configuration',
+      description: 'Passwords and encryption settings',
+      icon: 'shield',
+      fields: fieldIds(isSecurityField)
+    },
+    {
+      title: 'Additional Options',
+      description: 'Optional features and settings',
+      icon: 'clock',
+      fields: fieldIds((field) => !isSecurityField(field) && field.type === 'boolean')
+    }
+  ];
+
+  return [
+    {
+      id: 'config',
+      title: 'Configuration',
+      description: 'Configure your system settings and security parameters',
+      icon: 'settings',
+      sections: sections.filter((section) => section.fields.length > 0)
+    }
+  ];
+}
+
+/** The pages shown for `values`, the values of the visible fields. */
+export function getVisiblePages (pages: ConfigPage[], values: UserConfig): ConfigPage[] {
+  return pages.filter((page) => isPageVisible(page, values));
+}
+
+/** The ids of the fields on a page, in the order they are shown. */
+export function getPageFieldIds (page: ConfigPage): string[] {
+  return page.sections.flatMap((section) => section.fields);
+}
+
+/** Whether a field must have a value: it is `required`, or its `requiredWhen` holds for `values`. */
+export function isFieldRequired (field: ConfigField, values: UserConfig): boolean {
+  return Boolean(field.required || (field.requiredWhen && holds(field.requiredWhen, values)));
+}
+
+// The format each typed field's text must have, and the error when it does not
+const FORMATS: Partial<Record<ConfigFieldType, { test: (text: string) => boolean; message: string }>> = {
+  directory: { test: isAbsolutePath, message: 'Enter an absolute path' },
+  file: { test: isAbsolutePath, message: 'Enter an absolute path' },
+  ipv4: { test: isIPv4, message: 'Enter an IPv4 address, e.g. 192.168.1.10' },
+  ipv6: { test: isIPv6, message: 'Enter an IPv6 address, e.g. 2001:db8::1' },
+  cidr: { test: isCidr, message: 'Enter a network in CIDR notation, e.g. 10.0.0.0/24' },
+  port: { test: isPort, message: 'Enter a port number from 1 to 65535' },
+  email: { test: isEmail, message: 'Enter an e-mail address' },
+  url: { test: isUrl, message: 'Enter a URL, e.g. https://example.com' }
+};
+
+/** Whether a value counts as not filled in: empty text or an empty list. */
+export function isEmptyValue (value: UserConfig[string]): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function validateList (field: ConfigField, value: UserConfig[string]): string | null {
+  if (!Array.isArray(value)) {
+    return `${field.label} must be a list`;
+  }
+
+  // Choices read from the machine are only known where the field is shown
+  if (field.type === 'multiselect' && !field.optionsFrom) {
+    const unknown = value.find((item) => !field.options?.some((option) => option.value === item));
+    return unknown === undefined ? null : `"${unknown}" is not one of the options`;
+  }
+
+  const keys = new Set<string>();
+  for (const pair of value as KeyValuePair[]) {
+    if (typeof pair?.key !== 'string' || typeof pair.value !== 'string') {
+      return `${field.label} must be a list of key/value pairs`;
+    }
+    const key = pair.key.trim();
+    if (!key) {
+      return 'Every entry needs a key';
+    }
+    if (keys.has(key)) {
+      return `Duplicate key "${key}"`;
+    }
+    keys.add(key);
+  }
+  return null;
+}
+
+/** Returns the validation error for a single field, or null when the value is acceptable. */
+export function validateConfigField (field: ConfigField, value: UserConfig[string], required = Boolean(field.required)): string | null {
+  // A required switch must be on
+  if (required && (isEmptyValue(value) || value === false)) {
+    return `${field.label} is required`;
+  }
+
+  if (isEmptyValue(value) || value === false) {
+    return null;
+  }
+
+  if (field.type === 'multiselect' || field.type === 'keyValueList') {
+    return validateList(field, value);
+  }
+
+  let error: string | null = null;
+  const format = FORMATS[field.type];
+
+  if (format && !format.test(String(value).trim())) {
+    error = format.message;
+  }
+
+  if ((field.type === 'text' || field.type === 'textarea') && field.validation && !new RegExp(field.validation).test(value)) {
+    error = `Invalid format for ${field.label}`;
+  }
+
+  if (field.type === 'password' || field.type === 'textarea') {
+    if (field.minLength && value.length < field.minLength) {
+      error = `Minimum ${field.minLength} characters required`;
+    }
+    if (field.maxLength && value.length > field.maxLength) {
+      error = `Maximum ${field.maxLength} characters allowed`;
+    }
+  }
+
+  if ((field.type === 'number' || field.type === 'port') && !error) {
+    const num = Number(value);
+    if (field.min !== undefined && num < field.min) {
+      error = `Minimum value is ${field.min}`;
+    }
+    if (field.max !== undefined && num > field.max) {
+      error = `Maximum value is ${field.max}`;
+    }
+  }
+
+  return error;
+}
+
+/** Validates every visible field and returns the errors keyed by field id. Hidden fields are not checked. */
+export function validateConfigFields (fields: ConfigField[], values: UserConfig, pages: ConfigPage[] = []): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const visibleValues = getVisibleValues(fields, values, pages);
+
+  for (const field of getVisibleFields(fields, values, pages)) {
+    const error = validateConfigField(field, values[field.id], isFieldRequired(field, visibleValues));
+    if (error) {
+      errors[field.id] = error;
+    }
+  }
+
+  return errors;
+}
+
+/** Returns the validation error for an answer to an install-time prompt, or null. */
+export function validatePromptAnswer (prompt: InstallCommand, value: InstallCommand['default']): string | null {
+  if (prompt.required && !prompt.allowEmpty && !value) {
+    return 'This field is required';
+  }
+
+  if (prompt.validation && value && !new RegExp(prompt.validation).test(value)) {
+    return 'Invalid format';
+  }
+
+  return null;
+}
@@ -0,0 +1,331 @@
+/**
+ * A small, side-effect-free expression language for step and command
+ * conditions, e.g. `networkMode === 'static' && 'ssh' in enabledServices`.
+ * It reads variables and calls a fixed set of string and array helpers;
+ * there is no assignment and no access to anything outside `variables`.
+ */
+
+export type ExpressionVariables = Record<string, unknown>;
+
+export class ExpressionError extends Error {
+  constructor (message: string, readonly position?: number) {
+    super(position === undefined ? message : `${message} at column ${position + 1}`);
+    this.name = 'ExpressionError';
+  }
+}
+
+export type Expression =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'array'; items: Expression[] }
+  | { kind: 'variable'; name: string }
+  | { kind: 'member'; object: Expression; property: string }
+  | { kind: 'call'; object: Expression; method: string; args: Expression[] }
+  | { kind: 'unary'; operator: '!' | '-'; operand: Expression }
+  | { kind: 'binary'; operator: string; left: Expression; right: Expression };
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+// Longest first so `===` is not read as `==` followed by `=`
+const OPERATORS = /^(===|!==|==|!=|<=|>=|=~|!~|&&|\|\||[<>!()[\].,-])/;
+const NAME = /^[A-Za-z_$][\w$]*/;
+const NUMBER = /^\d+(\.\d+)?/;
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '===': 3,
+  '!==': 3,
+  '==': 3,
+  '!=': 3,
+  '=~': 3,
+  '!~': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  in: 4
+};
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null, undefined };
+
+function tokenize (source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const rest = source.slice(index);
+    const char = source[index];
+
+    if ((/\s/).test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      let value = '';
+      let end = index + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) {
+          end++;
+        }
+        value += source[end++];
+      }
+      if (end >= source.length) {
+        throw new ExpressionError('Unterminated string', index);
+      }
+      tokens.push({ type: 'string', value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const match = NUMBER.exec(rest) ?? NAME.exec(rest) ?? OPERATORS.exec(rest);
+    if (!match) {
+      throw new ExpressionError(`Unexpected character "${char}"`, index);
+    }
+
+    const type = NUMBER.test(rest) ? 'number' : NAME.test(rest) ? 'name' : 'operator';
+    tokens.push({ type, value: match[0], position: index });
+    index += match[0].length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+function describe (token: Token): string {
+  return token.type === 'end' ? 'end of expression' : `"${token.value}"`;
+}
+
+function compileRegExp (pattern: string, position?: number): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    throw new ExpressionError(error.message, position);
+  }
+}
+
+function toText (value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+const METHODS: Record<string, (target: unknown, ...args: unknown[]) => unknown> = {
+  includes: (target, item) => (Array.isArray(target) ? target.includes(item) : toText(target).includes(toText(item))),
+  startsWith: (target, prefix) => toText(target).startsWith(toText(prefix)),
+  endsWith: (target, suffix) => toText(target).endsWith(toText(suffix)),
+  toLowerCase: (target) => toText(target).toLowerCase(),
+  toUpperCase: (target) => toText(target).toUpperCase(),
+  trim: (target) => toText(target).trim(),
+  split: (target, separator) => toText(target).split(toText(separator)),
+  join: (target, separator = ',') => (Array.isArray(target) ? target.map(toText).join(toText(separator)) : toText(target))
+};
+
+/** Parses an expression, throwing an `ExpressionError` that points at the first syntax error. */
+export function parseExpression (source: string): Expression {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isOperator = (value: string) => peek().type === 'operator' && peek().value === value;
+
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      throw new ExpressionError(`Expected "${value}" but found ${describe(peek())}`, peek().position);
+    }
+    return next();
+  };
+
+  const parseList = (close: string): Expression[] => {
+    const items: Expression[] = [];
+    if (!isOperator(close)) {
+      do {
+        items.push(parseBinary(0));
+      } while (isOperator(',') && next());
+    }
+    expect(close);
+    return items;
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'name':
+        return Object.hasOwn(KEYWORDS, token.value)
+          ? { kind: 'literal', value: KEYWORDS[token.value] }
+          : { kind: 'variable', name: token.value };
+      default:
+        if (token.value === '(') {
+          const inner = parseBinary(0);
+          expect(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          return { kind: 'array', items: parseList(']') };
+        }
+        throw new ExpressionError(`Unexpected ${describe(token)}`, token.position);
+    }
+  };
+
+  const parsePostfix = (): Expression => {
+    let expression = parsePrimary();
+
+    while (isOperator('.')) {
+      next();
+      const name = next();
+      if (name.type !== 'name') {
+        throw new ExpressionError(`Expected a property name but found ${describe(name)}`, name.position);
+      }
+
+      if (isOperator('(')) {
+        next();
+        if (!Object.hasOwn(METHODS, name.value)) {
+          throw new ExpressionError(`Unknown method "${name.value}"`, name.position);
+        }
+        expression = { kind: 'call', object: expression, method: name.value, args: parseList(')') };
+      } else {
+        expression = { kind: 'member', object: expression, property: name.value };
+      }
+    }
+
+    return expression;
+  };
+
+  const parseUnary = (): Expression => {
+    if (isOperator('!') || isOperator('-')) {
+      const operator = next().value as '!' | '-';
+      return { kind: 'unary', operator, operand: parseUnary() };
+    }
+    return parsePostfix();
+  };
+
+  // Precedence climbing over BINARY_PRECEDENCE; all binary operators are left-associative
+  const parseBinary = (minPrecedence: number): Expression => {
+    let left = parseUnary();
+
+    for (;;) {
+      const token = peek();
+      const isBinary = (token.type === 'operator' || token.type === 'name') && Object.hasOwn(BINARY_PRECEDENCE, token.value);
+      const precedence = isBinary ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence <= minPrecedence) {
+        return left;
+      }
+
+      next();
+      const right = parseBinary(precedence);
+      if ((token.value === '=~' || token.value === '!~') && right.kind === 'literal' && typeof right.value === 'string') {
+        // Report bad patterns when the config loads rather than when the step runs
+        compileRegExp(right.value, token.position);
+      }
+      left = { kind: 'binary', operator: token.value, left, right };
+    }
+  };
+
+  const expression = parseBinary(0);
+  if (peek().type !== 'end') {
+    throw new ExpressionError(`Unexpected ${describe(peek())}`, peek().position);
+  }
+  return expression;
+}
+
+function readProperty (object: unknown, property: string): unknown {
+  if (property === 'length' && (typeof object === 'string' || Array.isArray(object))) {
+    return object.length;
+  }
+  if (object !== null && typeof object === 'object' && !Array.isArray(object) && Object.hasOwn(object, property)) {
+    return (object as Record<string, unknown>)[property];
+  }
+  return undefined;
+}
+
+function contains (container: unknown, item: unknown): boolean {
+  if (Array.isArray(container)) {
+    return container.includes(item);
+  }
+  if (typeof container === 'string') {
+    return container.includes(toText(item));
+  }
+  if (container !== null && typeof container === 'object') {
+    return Object.hasOwn(container, toText(item));
+  }
+  return false;
+}
+
+// Numbers compare numerically, so a number field stored as "2222" still compares with 1024
+function compare (left: unknown, right: unknown): number {
+  if (typeof left === 'number' || typeof right === 'number') {
+    return Number(left) - Number(right);
+  }
+  return toText(left).localeCompare(toText(right));
+}
+
+function evaluateBinary (operator: string, left: unknown, right: unknown): unknown {
+  switch (operator) {
+    case '===':
+    case '==':
+      return left === right;
+    case '!==':
+    case '!=':
+      return left !== right;
+    case '<':
+      return compare(left, right) < 0;
+    case '<=':
+      return compare(left, right) <= 0;
+    case '>':
+      return compare(left, right) > 0;
+    case '>=':
+      return compare(left, right) >= 0;
+    case 'in':
+      return contains(right, left);
+    case '=~':
+      return compileRegExp(toText(right)).test(toText(left));
+    case '!~':
+      return !compileRegExp(toText(right)).test(toText(left));
+    default:
+      throw new ExpressionError(`Unknown operator "${operator}"`);
+  }
+}
+
+function evaluate (expression: Expression, variables: ExpressionVariables): unknown {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'array':
+      return expression.items.map((item) => evaluate(item, variables));
+    case 'variable':
+      return Object.hasOwn(variables, expression.name) ? variables[expression.name] : undefined;
+    case 'member':
+      return readProperty(evaluate(expression.object, variables), expression.property);
+    case 'call':
+      return METHODS[expression.method](
+        evaluate(expression.object, variables),
+        ...expression.args.map((arg) => evaluate(arg, variables))
+      );
+    case 'unary': {
+      const operand = evaluate(expression.operand, variables);
+      return expression.operator === '!' ? !operand : -Number(operand);
+    }
+    case 'binary':
+      // `&&` and `||` short-circuit and return an operand, as in JavaScript
+      if (expression.operator === '&&') {
+        return evaluate(expression.left, variables) && evaluate(expression.right, variables);
+      }
+      if (expression.operator === '||') {
+        return evaluate(expression.left, variables) || evaluate(expression.right, variables);
+      }
+      return evaluateBinary(expression.operator, evaluate(expression.left, variables), evaluate(expression.right, variables));
+  }
+}
+
+/** Evaluates an expression (or its source) with `variables` in scope. Unknown variables are `undefined`. */
+export function evaluateExpression (expression: Expression | string, variables: ExpressionVariables): unknown {
+  return evaluate(typeof expression === 'string' ? parseExpression(expression) : expression, variables);
+}
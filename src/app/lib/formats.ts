@@ -0,0 +1,78 @@
+/**
+ * Checks for the text formats of config fields: addresses, networks, ports,
+ * e-mail addresses, URLs and paths. They look at the text only; nothing is
+ * resolved or looked up.
+ */
+
+const IPV4_OCTET = '(25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)';
+const IPV4 = new RegExp(`^${IPV4_OCTET}(\\.${IPV4_OCTET}){3}$`);
+const IPV6_GROUP = /^[0-9a-f]{1,4}$/i;
+
+/** A dotted-quad IPv4 address such as `192.168.1.10`. */
+export function isIPv4 (text: string): boolean {
+  return IPV4.test(text);
+}
+
+/** An IPv6 address such as `2001:db8::1`, optionally ending in an IPv4 address (`::ffff:192.0.2.1`). */
+export function isIPv6 (text: string): boolean {
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return false;
+  }
+
+  const groups = halves.flatMap((half) => (half ? half.split(':') : []));
+  const last = groups.at(-1) ?? '';
+  // An embedded IPv4 address ends the address and counts as two groups
+  const embedsIPv4 = last.includes('.');
+  if (embedsIPv4 && (!text.endsWith(last) || !isIPv4(last))) {
+    return false;
+  }
+
+  const hexGroups = embedsIPv4 ? groups.slice(0, -1) : groups;
+  if (!hexGroups.every((group) => IPV6_GROUP.test(group))) {
+    return false;
+  }
+
+  const count = hexGroups.length + (embedsIPv4 ? 2 : 0);
+  return halves.length === 2 ? count < 8 : count === 8;
+}
+
+/** A network in CIDR notation, IPv4 (`10.0.0.0/24`) or IPv6 (`2001:db8::/32`). */
+export function isCidr (text: string): boolean {
+  const match = (/^([^/]+)\/(\d{1,3})$/).exec(text);
+  if (!match) {
+    return false;
+  }
+
+  const prefix = Number(match[2]);
+  return (isIPv4(match[1]) && prefix <= 32) || (isIPv6(match[1]) && prefix <= 128);
+}
+
+/** A TCP or UDP port number, 1 to 65535. */
+export function isPort (value: unknown): boolean {
+  const port = Number(value);
+  return String(value).trim() !== '' && Number.isInteger(port) && port >= 1 && port <= 65535;
+}
+
+/** An e-mail address: a local part, `@` and a domain with a dot. */
+export function isEmail (text: string): boolean {
+  return (/^[^\s@]+@[^\s@]+\.[^\s@]+$/).test(text);
+}
+
+/** An absolute URL with a scheme and a host, such as `https://example.com/path`. */
+export function isUrl (text: string): boolean {
+  if (!(/^[a-z][a-z\d+.-]*:\/\//i).test(text)) {
+    return false;
+  }
+
+  try {
+    return new URL(text).host !== '';
+  } catch {
+    return false;
+  }
+}
+
+/** An absolute path on Unix (`/srv/app`) or Windows (`C:\Apps`, `\\server\share`). */
+export function isAbsolutePath (text: string): boolean {
+  return (/^(\/|[A-Za-z]:[\\/]|\\\\)/).test(text);
+}
@@ -0,0 +1,96 @@
+/**
+ * Password values wrapped so they cannot end up in text by accident.
+ * A `Secret` renders as a mask wherever it is turned into a string or
+ * JSON; only `reveal` gives the value back. Commands receive secrets
+ * through environment variables (see `renderCommand`), and the engine
+ * redacts any value that still shows up in output.
+ */
+
+import type { ConfigField } from '@/app/types/installer-config';
+
+export const SECRET_MASK = '********';
+export const REDACTED = '[REDACTED]';
+
+export class Secret {
+  readonly #value: string;
+
+  constructor (value: string) {
+    this.#value = value;
+  }
+
+  reveal (): string {
+    return this.#value;
+  }
+
+  toString (): string {
+    return SECRET_MASK;
+  }
+
+  toJSON (): string {
+    return SECRET_MASK;
+  }
+}
+
+export function isSecret (value: unknown): value is Secret {
+  return value instanceof Secret;
+}
+
+/** Wraps the values of `password` fields. Empty values are left as they are. */
+export function protectSecrets<T extends Record<string, unknown>> (fields: ConfigField[], values: T): T {
+  const protectedValues: Record<string, unknown> = { ...values };
+
+  for (const field of fields) {
+    const value = values[field.id];
+    if (field.type === 'password' && value !== undefined && value !== null && value !== '' && !isSecret(value)) {
+      protectedValues[field.id] = new Secret(String(value));
+    }
+  }
+
+  return protectedValues as T;
+}
+
+/** The same values with secrets unwrapped, for expressions that compare them. */
+export function revealSecrets (values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).map(([name, value]) => [name, isSecret(value) ? value.reveal() : value]));
+}
+
+/** The same values with secrets replaced by the mask, for sending to the renderer. */
+export function maskSecrets (values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).map(([name, value]) => [name, isSecret(value) ? SECRET_MASK : value]));
+}
+
+/** Values sent back by the renderer, with each mask replaced by the secret in `stored` it stands for. */
+export function restoreMaskedSecrets<T extends Record<string, unknown>> (values: T, stored: Record<string, unknown>): T {
+  return Object.fromEntries(Object.entries(values).map(([name, value]) => [
+    name,
+    value === SECRET_MASK && isSecret(stored[name]) ? stored[name] : value
+  ])) as T;
+}
+
+/** Replaces every occurrence of each secret in `text`. */
+export function redactSecrets (text: string, secrets: Iterable<string>): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    if (secret) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  return redacted;
+}
+
+/** Redacts every string in a plain object, array or string, returning a copy. */
+export function redactValue<T> (value: T, secrets: Set<string>): T {
+  if (secrets.size === 0) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return redactSecrets(value, secrets) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, secrets)) as T;
+  }
+  if (value && typeof value === 'object' && !isSecret(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item, secrets)])) as T;
+  }
+  return value;
+}
@@ -0,0 +1,246 @@
+/**
+ * `{{name | filter:arg}}` templates shared by the installation engine and
+ * the renderer. Commands are rendered with every value shell-quoted for the
+ * quoting context it appears in; `raw` opts a placeholder out of quoting.
+ */
+
+import type { KeyValuePair } from '@/app/types/installer-config';
+
+import { Secret } from './secret';
+
+export type TemplateVariables = Record<string, unknown>;
+
+export class TemplateError extends Error {
+  constructor (message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+interface Filter {
+  name: string;
+  arg?: string;
+}
+
+interface Placeholder {
+  name: string;
+  filters: Filter[];
+}
+
+type QuoteContext = 'none' | 'single' | 'double';
+
+export interface RenderOptions {
+  // Shell-quote values for the context they appear in
+  quote?: boolean;
+  // Throw on undefined variables instead of leaving the placeholder as it is
+  strict?: boolean;
+  // How a final value is turned into text when it is not quoted
+  format?: (value: unknown) => string;
+  // Receives the values of secrets, which the command reads from the environment instead
+  secretEnv?: Record<string, string>;
+}
+
+const PLACEHOLDER = /{{(.*?)}}/g;
+// Anything else between braces, e.g. a Go template like `{{.Names}}`, is left alone
+const NAME = /^[A-Za-z_][\w.-]*$/;
+
+const FILTERS: Record<string, (value: unknown, arg?: string) => unknown> = {
+  raw: (value) => value,
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  trim: (value) => toText(value).trim(),
+  join: (value, separator = ',') => (Array.isArray(value) ? value.map(toText).join(separator) : toText(value)),
+  default: (value, fallback = '') => (value === undefined || value === null || value === '' ? fallback : value)
+};
+
+function toText (value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (isKeyValuePair(value)) {
+    return `${value.key}=${value.value}`;
+  }
+  return Array.isArray(value) ? value.map(toText).join(' ') : String(value);
+}
+
+// An entry of a `keyValueList` config field
+function isKeyValuePair (value: unknown): value is KeyValuePair {
+  return typeof value === 'object' && value !== null && 'key' in value && 'value' in value;
+}
+
+// Splits on `separator` outside of single or double quotes
+function splitUnquoted (text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && i + 1 < text.length) {
+        current += char + text[++i];
+        continue;
+      }
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function parseArgument (text: string): string {
+  const arg = text.trim();
+  const quote = arg[0];
+
+  if ((quote === '"' || quote === '\'') && arg.endsWith(quote) && arg.length >= 2) {
+    return arg.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return arg;
+}
+
+function parsePlaceholder (expression: string): Placeholder | null {
+  const [name, ...filterParts] = splitUnquoted(expression, '|').map((part) => part.trim());
+
+  if (!NAME.test(name)) {
+    return null;
+  }
+
+  const filters = filterParts.map((part) => {
+    const [filterName, ...args] = splitUnquoted(part, ':');
+    const filter: Filter = { name: filterName.trim() };
+
+    if (!Object.hasOwn(FILTERS, filter.name)) {
+      throw new TemplateError(`Unknown filter "${filter.name}" in "{{${expression}}}"`);
+    }
+    if (args.length > 0) {
+      filter.arg = parseArgument(args.join(':'));
+    }
+    return filter;
+  });
+
+  return { name, filters };
+}
+
+/** Quotes a value as a single shell word, e.g. `it's` -> `'it'\''s'`. */
+export function shellQuote (value: string): string {
+  return `'${value.replace(/'/g, '\'\\\'\'')}'`;
+}
+
+function quoteFor (context: QuoteContext, value: unknown): string {
+  if (context === 'single') {
+    return toText(value).replace(/'/g, '\'\\\'\'');
+  }
+  if (context === 'double') {
+    return toText(value).replace(/[\\"$`]/g, '\\$&');
+  }
+  return Array.isArray(value) ? value.map((item) => shellQuote(toText(item))).join(' ') : shellQuote(toText(value));
+}
+
+// Refers to a secret through an environment variable, so its value never appears in the command line
+function secretReference (context: QuoteContext, raw: boolean, secret: string, env: Record<string, string>): string {
+  const name = `INSTALLER_SECRET_${Object.keys(env).length}`;
+  env[name] = secret;
+
+  if (context === 'single') {
+    return `'"\${${name}}"'`;
+  }
+  return raw || context === 'double' ? `\${${name}}` : `"\${${name}}"`;
+}
+
+// Quoting context at the end of `text`, given the context it starts in
+function advanceContext (context: QuoteContext, text: string): QuoteContext {
+  let current = context;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (current === 'single') {
+      if (char === '\'') {
+        current = 'none';
+      }
+    } else if (char === '\\') {
+      i++;
+    } else if (current === 'double') {
+      if (char === '"') {
+        current = 'none';
+      }
+    } else if (char === '\'') {
+      current = 'single';
+    } else if (char === '"') {
+      current = 'double';
+    }
+  }
+
+  return current;
+}
+
+export function renderTemplate (template: string, variables: TemplateVariables, options: RenderOptions = {}): string {
+  const { quote = false, strict = false, format = toText, secretEnv } = options;
+  let context: QuoteContext = 'none';
+  let lastIndex = 0;
+
+  return template.replace(PLACEHOLDER, (match, expression: string, offset: number) => {
+    context = advanceContext(context, template.slice(lastIndex, offset));
+    lastIndex = offset + match.length;
+
+    let placeholder: Placeholder | null;
+    try {
+      placeholder = parsePlaceholder(expression);
+    } catch (error) {
+      if (strict) {
+        throw error;
+      }
+      return match;
+    }
+    if (!placeholder) {
+      return match;
+    }
+
+    const hasDefault = placeholder.filters.some((filter) => filter.name === 'default');
+
+    if (!Object.hasOwn(variables, placeholder.name) && !hasDefault) {
+      if (strict) {
+        throw new TemplateError(`Undefined variable "${placeholder.name}"`);
+      }
+      return match;
+    }
+
+    const initial = variables[placeholder.name];
+    const secret = initial instanceof Secret;
+    // Filters see the value of a secret, and what they return is still secret
+    let value = placeholder.filters.reduce((current, filter) => FILTERS[filter.name](current, filter.arg), secret ? initial.reveal() : initial);
+    const raw = placeholder.filters.some((filter) => filter.name === 'raw');
+
+    if (secret && quote && secretEnv) {
+      return secretReference(context, raw, toText(value), secretEnv);
+    }
+    if (secret && !quote) {
+      value = new Secret(toText(value));
+    }
+
+    return quote && !raw ? quoteFor(context, value) : format(value);
+  });
+}
+
+/**
+ * Renders a shell command: values are shell-quoted and undefined variables
+ * are an error. With `secretEnv`, secrets are added to it and the command
+ * refers to them as `$INSTALLER_SECRET_<n>`; without it they are inlined.
+ */
+export function renderCommand (template: string, variables: TemplateVariables, secretEnv?: Record<string, string>): string {
+  return renderTemplate(template, variables, { quote: true, strict: true, secretEnv });
+}
+
+/** Renders text shown to the user. Undefined variables are left as they are. */
+export function renderText (template: string, variables: TemplateVariables, format?: (value: unknown) => string): string {
+  return renderTemplate(template, variables, { format });
+}
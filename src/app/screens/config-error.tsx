@@ -0,0 +1,57 @@
+import { Button } from '@/app/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/app/components/ui/card';
+import { FileWarning, RefreshCw, ArrowLeft } from 'lucide-react';
+import type { ConfigLoadResult } from '@/app/types/installer-config';
+
+interface ConfigErrorScreenProps {
+  result: ConfigLoadResult;
+  onRetry: () => void;
+  onBack: () => void;
+}
+
+export function ConfigErrorScreen({ result, onRetry, onBack }: ConfigErrorScreenProps) {
+  return (
+    <div className="h-full overflow-auto p-8">
+      <Card className="max-w-4xl mx-auto bg-slate-800/60 border-red-500/40 shadow-xl shadow-red-500/5 rounded-xl animate-in fade-in duration-300">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <FileWarning className="w-5 h-5 text-red-400" />
+            The installer configuration is invalid
+          </CardTitle>
+          <CardDescription className="text-slate-400">
+            {result.issues.length} problem{result.issues.length === 1 ? '' : 's'} found in{' '}
+            <span className="font-mono text-slate-300 break-all">{result.configPath}</span>.
+            Fix the file and reload it to continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="bg-slate-950 rounded-lg border border-slate-800 divide-y divide-slate-800 font-mono text-sm">
+            {result.issues.map((issue, index) => (
+              <div key={`${issue.path}-${index}`} className="px-4 py-3 flex flex-col gap-1">
+                <span className="text-yellow-400 break-all">{issue.path}</span>
+                <span className="text-slate-300">{issue.message}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-3">
+            <Button
+              onClick={onBack}
+              variant="outline"
+              className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-white"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+            <Button
+              onClick={onRetry}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Reload Configuration
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
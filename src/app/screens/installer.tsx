@@ -1,11 +1,15 @@
-import { useState } from 'react';
-import { Check, ChevronRight, Package2, Settings, Terminal, FileCheck, Shield } from 'lucide-react';
-import { DynamicConfigurationStage } from '@/app/components/stages/dynamic-configuration';
+import { useState, useEffect } from 'react';
+import { Check, ChevronRight, Package2, Terminal, FileCheck, Shield } from 'lucide-react';
+import { CONFIG_ICONS, DynamicConfigurationStage } from '@/app/components/stages/dynamic-configuration';
 import { PreChecksStage } from '@/app/components/stages/pre-checks';
 import { AdvancedInstallationStage } from '@/app/components/stages/advanced-installation';
 import { CompletionStage } from '@/app/components/stages/completion';
+import { ResumeInstallation } from '@/app/components/resume-installation';
+import { ConfigErrorScreen } from '@/app/screens/config-error';
 import { useNavigate } from 'react-router-dom';
-import type { UserConfig } from '@/app/types/installer-config';
+import { getConfigPages, getVisiblePages } from '@/app/lib/config-fields';
+import type { ConfigLoadResult, UserConfig } from '@/app/types/installer-config';
+import type { InterruptedRun } from '@/app/types/installer-run';
 
 export interface InstallConfig {
   projectName: string;
@@ -21,55 +25,111 @@ export interface Stage {
   label: string;
   icon: React.ElementType;
   status: StageStatus;
+  pageId?: string; // Set on the stages of config pages
 }
 
+// The stages after the configuration pages
+const RUN_STAGES: Array<Omit<Stage, 'status'>> = [
+  { id: 'precheck', label: 'Pre-Checks', icon: Shield },
+  { id: 'install', label: 'Installation', icon: Terminal },
+  { id: 'complete', label: 'Completion', icon: FileCheck }
+];
+
 export function InstallerScreen() {
   const navigate = useNavigate();
-  const [currentStageIndex, setCurrentStageIndex] = useState(0);
+  const [currentStageId, setCurrentStageId] = useState<string | null>(null);
   const [userConfig, setUserConfig] = useState<UserConfig>({});
+  const [interruptedRun, setInterruptedRun] = useState<InterruptedRun | null>(null);
+  const [resumeError, setResumeError] = useState<string | null>(null);
+  const [configLoad, setConfigLoad] = useState<ConfigLoadResult | null>(null);
 
-  const [stages, setStages] = useState<Stage[]>([
-    { id: 'config', label: 'Configuration', icon: Settings, status: 'active' },
-    { id: 'precheck', label: 'Pre-Checks', icon: Shield, status: 'pending' },
-    { id: 'install', label: 'Installation', icon: Terminal, status: 'pending' },
-    { id: 'complete', label: 'Completion', icon: FileCheck, status: 'pending' }
-  ]);
-
-  const updateStageStatus = (index: number, status: StageStatus) => {
-    setStages(prev => prev.map((stage, i) => 
-      i === index ? { ...stage, status } : stage
-    ));
-  };
+  // One stage per visible config page, then the run stages; stages before the current one are completed
+  const configPages = configLoad?.config ? getVisiblePages(getConfigPages(configLoad.config), userConfig) : [];
+  const stageList: Array<Omit<Stage, 'status'>> = [
+    ...configPages.map(page => ({
+      id: `config:${page.id}`,
+      label: page.title,
+      icon: CONFIG_ICONS[page.icon ?? 'settings'],
+      pageId: page.id
+    })),
+    ...RUN_STAGES
+  ];
+  const currentStageIndex = Math.max(0, stageList.findIndex(stage => stage.id === currentStageId));
+  const stages: Stage[] = stageList.map((stage, index) => ({
+    ...stage,
+    status: index < currentStageIndex ? 'completed' : index === currentStageIndex ? 'active' : 'pending'
+  }));
 
   const handleNext = () => {
     if (currentStageIndex < stages.length - 1) {
-      updateStageStatus(currentStageIndex, 'completed');
-      updateStageStatus(currentStageIndex + 1, 'active');
-      setCurrentStageIndex(currentStageIndex + 1);
+      setCurrentStageId(stages[currentStageIndex + 1].id);
     }
   };
 
   const handleBack = () => {
     if (currentStageIndex > 0) {
-      updateStageStatus(currentStageIndex, 'pending');
-      updateStageStatus(currentStageIndex - 1, 'active');
-      setCurrentStageIndex(currentStageIndex - 1);
+      setCurrentStageId(stages[currentStageIndex - 1].id);
+    }
+  };
+
+  // Validate the config up front so schema problems are listed before any stage uses it
+  const loadConfig = async () => {
+    const result: ConfigLoadResult = await electron.ipcRenderer.invoke('installer:loadConfig');
+    setConfigLoad(result);
+
+    if (result.config) {
+      setInterruptedRun(await electron.ipcRenderer.invoke('installer:getInterruptedRun'));
     }
   };
 
+  useEffect(() => {
+    loadConfig()
+      .catch((error) => console.error('Failed to load installer config:', error));
+  }, []);
+
+  // Jump straight to the installation stage; the engine replays the journal from where it stopped
+  const handleResume = async () => {
+    let resumedConfig: UserConfig;
+    try {
+      resumedConfig = await electron.ipcRenderer.invoke('installer:resumeInterruptedRun');
+    } catch (error) {
+      setResumeError(error.message);
+      return;
+    }
+
+    setResumeError(null);
+    setUserConfig(resumedConfig);
+    setInterruptedRun(null);
+    setCurrentStageId('install');
+  };
+
+  const handleDiscard = async () => {
+    await electron.ipcRenderer.invoke('installer:discardInterruptedRun');
+    setInterruptedRun(null);
+  };
+
   const handleComplete = () => {
     navigate('/');
   };
 
   const renderStageContent = () => {
-    switch (stages[currentStageIndex].id) {
-      case 'config':
-        return (
-          <DynamicConfigurationStage 
-            onConfigChange={setUserConfig}
-            onNext={handleNext}
-          />
-        );
+    const stage = stages[currentStageIndex];
+
+    // Every page shares one configuration stage (same key), so values on earlier pages are kept
+    if (stage.pageId) {
+      return (
+        <DynamicConfigurationStage
+          key="config"
+          pageId={stage.pageId}
+          initialConfig={userConfig}
+          onConfigChange={setUserConfig}
+          onNext={handleNext}
+          onBack={currentStageIndex > 0 ? handleBack : undefined}
+        />
+      );
+    }
+
+    switch (stage.id) {
       case 'precheck':
         return (
           <PreChecksStage
@@ -97,6 +157,20 @@ export function InstallerScreen() {
     }
   };
 
+  if (!configLoad) {
+    return null;
+  }
+
+  if (configLoad.issues.length > 0) {
+    return (
+      <ConfigErrorScreen
+        result={configLoad}
+        onRetry={loadConfig}
+        onBack={handleComplete}
+      />
+    );
+  }
+
   return (
     <div className="h-full flex relative">
       {/* Sidebar */}
@@ -173,6 +247,16 @@ export function InstallerScreen() {
       {/* Main Content Area */}
       <div className="flex-1 flex flex-col">
         <div className="flex-1 overflow-auto">
+          {interruptedRun && currentStageIndex === 0 && (
+            <div className="px-8 pt-8 max-w-4xl mx-auto">
+              <ResumeInstallation
+                run={interruptedRun}
+                error={resumeError}
+                onResume={handleResume}
+                onDiscard={handleDiscard}
+              />
+            </div>
+          )}
           {renderStageContent()}
         </div>
       </div>
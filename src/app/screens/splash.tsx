@@ -1,14 +1,35 @@
+import { useEffect, useState } from 'react';
 import { Button } from '@/app/components/ui/button';
-import { Package2 } from 'lucide-react';
+import { FolderOpen, Package2 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
 export function SplashScreen() {
   const navigate = useNavigate();
+  const [configPath, setConfigPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    electron.ipcRenderer.invoke('installer:getConfigPath')
+      .then(setConfigPath)
+      .catch((error) => console.error('Failed to resolve installer config path:', error));
+  }, []);
 
   const handleGetStarted = () => {
     navigate('/installer');
   };
 
+  const handleOpenConfig = async () => {
+    const result = await electron.ipcRenderer.invoke('dialog:openFile', {
+      title: 'Open Installer Config',
+      filters: [{ name: 'Installer Config', extensions: ['json', 'yaml', 'yml'] }]
+    });
+    if (result.canceled || result.filePaths.length === 0) {
+      return;
+    }
+
+    await electron.ipcRenderer.invoke('installer:setConfigPath', result.filePaths[0]);
+    navigate('/installer');
+  };
+
   return (
     <div className="h-full flex items-center justify-center relative overflow-hidden">
       <div className="absolute inset-0 bg-gradient-to-br from-slate-950/90 via-blue-950/20 to-slate-950/90"></div>
@@ -35,6 +56,20 @@ export function SplashScreen() {
         >
           Get Started
         </Button>
+
+        <div className="mt-6 flex flex-col items-center gap-2">
+          <Button
+            variant="ghost"
+            onClick={handleOpenConfig}
+            className="text-slate-400 hover:text-white hover:bg-slate-800/60"
+          >
+            <FolderOpen className="w-4 h-4 mr-2" />
+            Open installer config…
+          </Button>
+          {configPath && (
+            <p className="text-xs text-slate-500 font-mono break-all">{configPath}</p>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -1,4 +1,5 @@
 export interface InstallerConfig {
+  $schema?: string;
   installer: {
     name: string;
     version: string;
@@ -6,26 +7,101 @@ export interface InstallerConfig {
   };
   preChecks: PreCheck[];
   configFields: ConfigField[];
+  configPages?: ConfigPage[]; // Splits the configuration stage into pages; every field must be on exactly one page
   installSteps: InstallStep[];
-  postInstall: PostInstallCommand[];
+  postInstall?: PostInstallCommand[]; // Run after every install step; failures are warnings
+  summary?: SummaryConfig; // Rows of the installation summary; defaults to the filled-in config fields
+  completion?: CompletionConfig;
+  executionMode?: ExecutionMode; // Defaults to 'dry-run'
+  maxParallelSteps?: number; // How many steps may run at once (default 4)
+  commandPolicy?: CommandPolicyRules;
+  // Keep password values in the run journal, encrypted by the OS, so an interrupted run can resume with them
+  persistSecrets?: boolean;
+  // Documentation only: variables the steps capture, with a note on where each comes from
+  runtimeVariables?: {
+    description?: string;
+    examples?: Record<string, string>;
+  };
+}
+
+/**
+ * How commands that are neither marked `safe` nor allowed by the command
+ * policy are handled: simulated (`dry-run`), run after the user confirms
+ * (`confirm-each`) or run (`execute`). Denied commands never run.
+ */
+export type ExecutionMode = 'dry-run' | 'confirm-each' | 'execute';
+
+/**
+ * Extra command policy rules. A rule is a command with its arguments, matched
+ * word by word against every command of a pipeline or list. `*` inside a word
+ * matches any characters and a trailing `*` word matches any remaining
+ * arguments, e.g. `systemctl status *`.
+ */
+export interface CommandPolicyRules {
+  allow?: string[];
+  deny?: string[];
 }
 
-export interface PreCheck {
+/**
+ * Decides whether a command or pre-check succeeded. It fails when it ends
+ * without an exit code (timeout, spawn error, cancel), when its output
+ * matches `failurePattern`, when its exit code is not expected, or when its
+ * output does not match `successPattern`. Patterns are case-insensitive
+ * regular expressions tested against stdout and stderr, where `^` and `$`
+ * match at line breaks.
+ */
+export interface OutcomeRules {
+  expectedExitCode?: number | number[]; // Defaults to 0
+  successPattern?: string;
+  failurePattern?: string;
+}
+
+export interface PreCheck extends OutcomeRules {
   name: string;
-  command: string;
-  expectedPattern?: string;
-  expectedExitCode?: number;
-  minRequired?: string;
-  type?: 'diskSpace' | 'memory' | 'cpu';
+  command?: string; // Required unless `type` is set
+  expectedPattern?: string; // Older name for successPattern
+  severity?: 'warning' | 'error'; // A failing `warning` check is reported but does not block the install (default 'error')
+  overridable?: boolean; // The user may ignore a failure and continue; the override is logged with the run
+  timeoutMs?: number; // How long the check may take (default 10000; 5000 for tcpReachable to connect)
+  type?: PreCheckType; // Checked by the installer instead of running `command`
+  minRequired?: string; // A size such as '10G' or '512M' for diskSpace and memory, a core count for cpu
+  path?: string; // diskSpace: where to measure free space (default the root of the working directory); fileExists, dirWritable: the path to check
+  architectures?: string[]; // cpu: allowed architectures as Node names them, e.g. ['x64', 'arm64']
+  port?: number; // portFree, tcpReachable
+  host?: string; // tcpReachable: the host to connect to; portFree: the address to bind (default all)
+  program?: string; // commandAvailable: an executable looked up on PATH
+  variable?: string; // envVar: must be set, and match successPattern if given
+  distros?: string[]; // osRelease: allowed ID or ID_LIKE values from /etc/os-release, e.g. ['ubuntu', 'debian']
+  minVersion?: string; // osRelease, kernelVersion
+  maxVersion?: string; // osRelease, kernelVersion
+  remediation?: string; // What the user can do when the check fails; typed checks have a default
   errorMessage: string;
   safe?: boolean;
-  captureAs?: string;
+  captureAs?: string; // Expose trimmed output to install steps as {{captureAs}}
 }
 
+/**
+ * Pre-checks the installer runs itself. The fields each one reads are noted
+ * on `PreCheck`.
+ */
+export type PreCheckType =
+  | 'diskSpace'
+  | 'memory'
+  | 'cpu'
+  | 'portFree'
+  | 'fileExists'
+  | 'dirWritable'
+  | 'commandAvailable'
+  | 'osRelease'
+  | 'kernelVersion'
+  | 'envVar'
+  | 'userIsRoot'
+  | 'tcpReachable';
+
 export interface ConfigField {
   id: string;
   label: string;
-  type: 'text' | 'password' | 'number' | 'boolean' | 'select';
+  type: ConfigFieldType;
   required?: boolean;
   placeholder?: string;
   validation?: string;
@@ -34,26 +110,132 @@ export interface ConfigField {
   maxLength?: number;
   min?: number;
   max?: number;
-  default?: any;
-  options?: Array<{ value: string; label: string }>;
+  default?: any; // A string default may be a template, e.g. "{{username}}-box", that follows the fields it names until edited
+  options?: SelectOption[]; // Choices of `select` and `multiselect` fields; with `optionsFrom`, shown when loading them fails
+  optionsFrom?: OptionsSource; // Reads the choices from the machine when the field's page opens
+  filters?: Array<{ name: string; extensions: string[] }>; // File types offered by the dialog of a `file` field
+  rows?: number; // Height of a `textarea`, in lines
+  visibleWhen?: string; // Condition on other fields, e.g. enableSsh === true; hidden fields are not validated or passed to steps
+  requiredWhen?: string; // Condition that makes the field required, e.g. networkMode === 'static'
 }
 
-export interface InstallCommand {
+/**
+ * What a config field holds and how it is entered. Each type checks its
+ * value: `directory` and `file` take absolute paths (picked in a dialog),
+ * `ipv4`, `ipv6`, `cidr`, `port`, `email` and `url` their format.
+ * `multiselect` holds a list of option values and `keyValueList` a list of
+ * `{ key, value }` pairs, which commands receive as `key=value` words.
+ */
+export type ConfigFieldType =
+  | 'text'
+  | 'password'
+  | 'number'
+  | 'boolean'
+  | 'select'
+  | 'multiselect'
+  | 'textarea'
+  | 'directory'
+  | 'file'
+  | 'ipv4'
+  | 'ipv6'
+  | 'cidr'
+  | 'port'
+  | 'email'
+  | 'url'
+  | 'keyValueList';
+
+export interface SelectOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Where the choices of a `select` or `multiselect` field or prompt are read
+ * from when it is shown: each line a command prints, the entries of a JSON
+ * file, or a variable captured earlier (a list, or text with a choice per
+ * line). Exactly one of `command`, `file` and `variable` is set. Results of
+ * commands and files are kept until the user refreshes them.
+ */
+export interface OptionsSource {
+  command?: string; // Template, e.g. "ls /sys/class/net"; runs only when the command policy allows it without asking
+  file?: string; // Template; JSON array of strings or objects, relative to the config file
+  variable?: string; // Name of a captured variable or earlier answer
+  pattern?: string; // Regular expression lines must match; the `value` and `label` groups (or the first group) pick the parts
+  valueKey?: string; // Property of JSON objects holding the value (default 'value')
+  labelKey?: string; // Property of JSON objects holding the label (default 'label', then the value)
+  safe?: boolean; // Run `command` even when the command policy would not
+  timeout?: number; // For `command`, in milliseconds (default 10000)
+}
+
+/** An entry of a `keyValueList` field. */
+export interface KeyValuePair {
+  key: string;
+  value: string;
+}
+
+/**
+ * A page of the configuration stage, with its own entry in the sidebar.
+ * Pages are shown in order and validated one at a time. A page whose
+ * `visibleWhen` does not hold is skipped, and its fields are hidden.
+ */
+export interface ConfigPage {
+  id: string;
+  title: string;
+  description?: string;
+  icon?: ConfigIcon; // Defaults to 'settings'
+  visibleWhen?: string; // Condition on fields of earlier pages
+  sections: ConfigSection[];
+}
+
+/** A card on a config page, listing fields by id in the order they are shown. */
+export interface ConfigSection {
+  title?: string;
+  description?: string;
+  icon?: ConfigIcon;
+  fields: string[];
+}
+
+export type ConfigIcon =
+  | 'settings'
+  | 'server'
+  | 'shield'
+  | 'key'
+  | 'lock'
+  | 'user'
+  | 'network'
+  | 'globe'
+  | 'database'
+  | 'storage'
+  | 'clock'
+  | 'package'
+  | 'terminal';
+
+export interface InstallCommand extends OutcomeRules {
   cmd?: string;
-  description: string;
+  description?: string; // Prompts and displays may use `message` or `title` instead
   safe?: boolean;
   sensitive?: boolean;
-  expectedExitCode?: number;
+  continueOnError?: boolean; // A failure is reported as a warning and the step carries on
   timeout?: number;
   captureAs?: string; // Capture output as variable
   defaultValue?: string; // Default if capture fails
-  condition?: string; // JavaScript expression to evaluate
+  condition?: string; // Condition expression, e.g. networkMode === 'static'
+  reboot?: boolean; // Restarts the machine; journaled as done before it runs so a resumed install continues after it
+  rollback?: InstallCommand[]; // Undoes this command if a later one fails
+  retries?: number; // Extra attempts after a failure
+  retryDelayMs?: number; // Wait before the first retry (default 1000)
+  retryBackoff?: number; // Multiplier applied to the wait after each retry (default 2)
+  retryOn?: RetryCondition; // Failures worth retrying; any failure when omitted
+  stdin?: string; // Template written to the command's input, e.g. "{{username}}:{{password}}" for chpasswd
+  interactive?: boolean; // Keep input open and answer output that matches `expect`
+  expect?: ExpectRule[];
   type?: 'command' | 'prompt' | 'display';
   
   // For prompts
   promptType?: 'input' | 'password' | 'confirm' | 'select' | 'multiselect';
   message?: string;
-  options?: Array<{ value: string; label: string; selected?: boolean }>;
+  options?: Array<SelectOption & { selected?: boolean }>;
+  optionsFrom?: OptionsSource; // Read when the prompt is shown; `options` are shown when that fails
   default?: any;
   validation?: string;
   allowEmpty?: boolean;
@@ -64,19 +246,110 @@ export interface InstallCommand {
   content?: string[];
 }
 
+/**
+ * A reply to a question an interactive command asks. When the pattern
+ * matches output the command printed since the last reply, `send` is
+ * written to its input followed by a newline, or the user is asked for the
+ * reply when there is no `send`.
+ */
+export interface ExpectRule {
+  pattern: string; // Regular expression, e.g. "passphrase.*:"
+  send?: string; // Template, may name a secret
+  message?: string; // What the user is asked; defaults to the matched output
+  hidden?: boolean; // Ask without echoing the reply; it is treated as a secret
+}
+
+/** A failure is retried when it matches any of the listed exit codes or the output pattern. */
+export interface RetryCondition {
+  exitCodes?: number[];
+  output?: string; // Regular expression tested against the command output
+}
+
 export interface InstallStep {
+  id?: string; // Lets other steps name this one in `dependsOn`
   name: string;
   description: string;
+  dependsOn?: string[]; // Ids of the steps that must finish first; replaces the implicit wait for the previous step
+  parallel?: boolean; // Consecutive parallel steps run side by side once the steps before them finish
   condition?: string;
   commands: InstallCommand[];
+  rollback?: InstallCommand[]; // Undoes the whole step if a later step fails
 }
 
 export interface PostInstallCommand {
   name: string;
   command: string;
   safe?: boolean;
+  sensitive?: boolean;
+  timeout?: number;
+  condition?: string;
+}
+
+/** What the completion screen shows once the installation succeeded. */
+export interface CompletionConfig {
+  title?: string;
+  message?: string;
+  nextActions?: NextAction[];
+}
+
+/**
+ * The installation summary shown on the completion screen and exported as
+ * Markdown or JSON. Items with the same `group` are listed together, groups
+ * in the order they first appear.
+ */
+export interface SummaryConfig {
+  title?: string; // Defaults to "Installation Summary"
+  items: SummaryItem[];
+}
+
+/**
+ * One row of the summary. `variable` names a config field, prompt answer
+ * or captured value; `value` is a template for anything else. A row
+ * without a value is hidden unless it has a `fallback`.
+ */
+export interface SummaryItem {
+  label: string;
+  variable?: string;
+  value?: string; // Template, e.g. "{{username}}@{{hostname}}"
+  format?: SummaryFormat; // Defaults to 'text'
+  group?: string;
+  fallback?: string;
+}
+
+/**
+ * `text` shows the value as is (lists comma-separated, booleans as Yes/No),
+ * `boolean` shows any value as Yes/No, `bytes` shows a byte count as a
+ * size such as `4.2G`, and `code` shows it in a monospace font.
+ */
+export type SummaryFormat = 'text' | 'boolean' | 'bytes' | 'code';
+
+/**
+ * A button on the completion screen. `openUrl` opens `url` in the browser,
+ * `openFolder` opens `path` in the file manager, `runCommand` runs `cmd`
+ * under the command policy and shows its output, and `showReadme` shows the
+ * text file at `path`. Relative paths are resolved against the config file.
+ */
+export interface NextAction {
+  type: 'openUrl' | 'openFolder' | 'runCommand' | 'showReadme';
+  label: string;
+  description?: string;
+  url?: string;
+  path?: string;
+  cmd?: string;
+  safe?: boolean;
+  condition?: string; // Hidden unless the condition holds for the user's config
 }
 
 export interface UserConfig {
   [key: string]: any;
-}
\ No newline at end of file
+}
+export interface ConfigIssue {
+  path: string; // JSON path of the offending value, e.g. $.installSteps[2].commands[0].promptType
+  message: string;
+}
+
+export interface ConfigLoadResult {
+  configPath: string;
+  config: InstallerConfig | null; // null when the file has issues
+  issues: ConfigIssue[];
+}
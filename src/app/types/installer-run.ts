@@ -0,0 +1,169 @@
+import type { ExecutionMode, InstallCommand, NextAction, SelectOption, SummaryFormat } from './installer-config';
+
+export type RunStatus = 'idle' | 'running' | 'waiting' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+/** How a command or pre-check ended: `warn` is a tolerated failure or a pass with something to point out. */
+export type Outcome = 'pass' | 'warn' | 'fail';
+
+export interface CommandResult {
+  success: boolean;
+  outcome: Outcome;
+  output: string;
+  exitCode: number | null;
+  command: string;
+  error?: string;
+  simulated?: boolean; // Not run because of the execution mode; `output` says what would have run
+}
+
+export interface CommandAttempt {
+  attempt: number;
+  exitCode: number | null;
+  error?: string;
+  durationMs: number;
+}
+
+export interface StepCommandResult extends CommandResult {
+  step: string;
+  description: string;
+  attempts?: CommandAttempt[]; // Every attempt, for commands with `retries`
+}
+
+export interface RollbackResult {
+  step: string;
+  description: string;
+  // Whether the command came from `InstallStep.rollback` or `InstallCommand.rollback`
+  scope: 'step' | 'command';
+  success: boolean;
+  outcome: Outcome;
+  exitCode: number | null;
+  output: string;
+  command?: string; // Rendered command line, or [REDACTED] for sensitive commands
+  error?: string;
+  simulated?: boolean;
+}
+
+export interface PromptRequest {
+  id: string;
+  stepIndex: number;
+  commandIndex: number;
+  prompt: InstallCommand; // With `optionsFrom`, `options` holds the choices that were read
+  optionsError?: string; // Why the choices could not be read
+}
+
+/** The choices read for an `optionsFrom` source, or the error that stopped them being read. */
+export interface LoadedOptions {
+  options: SelectOption[];
+  error?: string;
+}
+
+/** A failed pre-check the user chose to ignore. */
+export interface PreCheckOverride {
+  check: string;
+  error?: string;
+  user: string; // Account the installer ran as
+  at: string; // ISO timestamp
+}
+
+/**
+ * Events emitted by the installation engine while it works through the
+ * install steps. They are forwarded to the renderer as they happen and
+ * kept in the run state so a reloaded window can replay the transcript.
+ */
+export type RunEventBody =
+  | { type: 'runStart'; resumed?: boolean; executionMode: ExecutionMode }
+  // Emitted right after runStart for each pre-check failure the user ignored
+  | { type: 'preCheckOverridden'; override: PreCheckOverride }
+  | { type: 'stepStart'; stepIndex: number; name: string; description: string }
+  | { type: 'stepSkipped'; stepIndex: number; name: string }
+  | { type: 'stepComplete'; stepIndex: number; name: string }
+  | { type: 'stepError'; stepIndex: number; name: string; error: string }
+  | { type: 'commandStart'; stepIndex: number; commandIndex: number; description: string }
+  | { type: 'commandSkipped'; stepIndex: number; commandIndex: number; description: string; reason: 'condition' | 'journal' | 'declined' }
+  // `commandIndex` is -1 for output of rollback commands
+  | { type: 'commandOutput'; stepIndex: number; commandIndex: number; stream: 'stdout' | 'stderr'; data: string }
+  | { type: 'commandRetry'; stepIndex: number; commandIndex: number; description: string; attempt: number; maxAttempts: number; delayMs: number; error: string }
+  // `durationMs` covers every attempt of a command that ran
+  | { type: 'commandComplete'; stepIndex: number; commandIndex: number; description: string; success: boolean; outcome: Outcome; exitCode: number | null; error?: string; simulated?: boolean; durationMs?: number; commandLine?: string }
+  | { type: 'variableCaptured'; name: string; value: string; fallback?: boolean }
+  | { type: 'prompt'; request: PromptRequest }
+  | { type: 'promptAnswered'; id: string }
+  | { type: 'display'; stepIndex: number; commandIndex: number; title?: string; content: string[] }
+  // The post-install step, which runs once every install step has finished
+  | { type: 'postInstallStart'; stepIndex: number; count: number }
+  | { type: 'rollbackStart'; count: number }
+  | { type: 'rollbackCommandStart'; stepIndex: number; description: string }
+  | { type: 'rollbackCommandComplete'; stepIndex: number; result: RollbackResult }
+  | { type: 'rollbackComplete'; success: boolean }
+  // Paused runs hold before their next command until resumed
+  | { type: 'runPaused' }
+  | { type: 'runResumed' }
+  | { type: 'runComplete'; success: boolean; error?: string; cancelled?: boolean };
+
+/** `seq` is the position of the event in the run transcript. */
+export type RunEvent = RunEventBody & { seq: number; timestamp: number };
+
+/** Files a run is logged to, when the engine was given a log directory. */
+export interface RunLogPaths {
+  jsonl: string; // One JSON object per event
+  transcript: string; // Plain text, as it would read in a terminal
+}
+
+export interface RunState {
+  status: RunStatus;
+  events: RunEvent[];
+  variables: Record<string, unknown>;
+  pendingPrompt: PromptRequest | null;
+  results: StepCommandResult[];
+  rollbacks: RollbackResult[];
+  log: RunLogPaths | null;
+}
+
+/** The completion screen of a finished run, rendered from `InstallerConfig.completion`. */
+export interface CompletionInfo {
+  title?: string;
+  message?: string;
+  summary: Summary;
+  // Actions whose condition holds, by their index in the config
+  nextActions: Array<{ index: number; type: NextAction['type']; label: string; description?: string }>;
+}
+
+/** The installation summary with its values formatted. Items without a `group` form a group without a title. */
+export interface Summary {
+  title: string;
+  groups: Array<{ title?: string; rows: SummaryRow[] }>;
+}
+
+export interface SummaryRow {
+  label: string;
+  value: string;
+  format: SummaryFormat;
+}
+
+export type SummaryExportFormat = 'text' | 'markdown' | 'json';
+
+export interface NextActionResult {
+  success: boolean;
+  error?: string;
+  output?: string; // From `runCommand`
+  content?: string; // From `showReadme`
+}
+
+export interface ResumePoint {
+  stepIndex: number;
+  commandIndex: number;
+  stepName: string;
+  description: string;
+}
+
+/** Summary of a journaled run that did not finish, offered for resuming on launch. */
+export interface InterruptedRun {
+  configName: string;
+  configVersion: string;
+  startedAt: string;
+  updatedAt: string;
+  completedCommands: number;
+  totalCommands: number;
+  resumePoint: ResumePoint | null;
+  // The journal was written for a different installer config and cannot be resumed
+  configChanged: boolean;
+}
@@ -0,0 +1,14 @@
+import { HeadlessExitCode, runHeadless } from './installer/headless';
+
+/**
+ * Node entry that runs an installer config without the GUI, for machines
+ * without a display: `node .vite/build/cli.js --headless --config <file>`.
+ */
+runHeadless(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((error) => {
+    console.error(`Installer failed: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = HeadlessExitCode.InstallFailed;
+  });
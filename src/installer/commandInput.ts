@@ -0,0 +1,49 @@
+import { revealSecrets } from '@/app/lib/secret';
+import { renderTemplate } from '@/app/lib/template';
+import type { ExpectRule, InstallCommand } from '@/app/types/installer-config';
+
+import type { ShellCommandOptions } from './commandRunner';
+import type { Variables } from './variables';
+
+/** Asks the user for the reply to a rule without `send`. */
+export type AskReply = (rule: ExpectRule, question: string) => Promise<string>;
+
+/**
+ * Renders text written to a command's input. Input never shows up in the
+ * command line, so secrets are written as their value.
+ */
+export function renderInput (template: string, variables: Variables): string {
+  return renderTemplate(template, revealSecrets(variables), { strict: true });
+}
+
+/**
+ * What a command reads: its rendered `stdin` and, for an `interactive`
+ * command, a handler per `expect` rule. `send` is rendered when the rule
+ * matches, so it sees variables captured in the meantime. Without `ask`,
+ * a rule without `send` stops the command.
+ */
+export function createCommandInput (
+  command: InstallCommand,
+  variables: Variables,
+  ask?: AskReply
+): Pick<ShellCommandOptions, 'stdin' | 'expect'> {
+  const reply = async (rule: ExpectRule, question: string) => {
+    if (rule.send !== undefined) {
+      return renderInput(rule.send, variables);
+    }
+    if (!ask) {
+      throw new Error(`Cannot answer "${question}" here`);
+    }
+    return ask(rule, question);
+  };
+
+  return {
+    stdin: command.stdin === undefined ? undefined : renderInput(command.stdin, variables),
+    expect: command.interactive
+      ? (command.expect ?? []).map((rule) => ({
+          pattern: new RegExp(rule.pattern, 'im'),
+          reply: (question: string) => reply(rule, question)
+        }))
+      : undefined
+  };
+}
@@ -0,0 +1,281 @@
+import type { CommandPolicyRules, ExecutionMode } from '@/app/types/installer-config';
+
+import { parseShellCommand, type SimpleCommand } from './shellParser';
+
+// Commands that only read system state and may run in any execution mode
+const DEFAULT_ALLOW_RULES = [
+  'uname *',
+  'hostname',
+  'hostname -f',
+  'hostname -s',
+  'hostname -i',
+  'hostname -I',
+  'whoami',
+  'id *',
+  'pwd',
+  'cd',
+  'cd *',
+  'date',
+  'date +*',
+  'df *',
+  'free *',
+  'nproc *',
+  'lscpu *',
+  'lsblk *',
+  'ip route',
+  'ip route show *',
+  'ip addr',
+  'ip addr show *',
+  'ip link show *',
+  'ping -c *',
+  'ls *',
+  'echo *',
+  'printf *',
+  'cat *',
+  'grep *',
+  'head *',
+  'tail *',
+  'wc *',
+  'cut *',
+  'tr *',
+  'which *',
+  'command -v *',
+  'test *',
+  '[ *',
+  'true',
+  'false',
+  'systemctl list-units *',
+  'systemctl is-active *',
+  'systemctl is-enabled *',
+  'systemctl status *'
+];
+
+// Commands that never run, whatever the execution mode or `safe` flag. Recursive
+// removal of `/` is caught by `removesRoot`, as its flags can be written many ways.
+const DEFAULT_DENY_RULES = [
+  'chmod -R 777 /',
+  'chown -R * /'
+];
+
+// Prefixes that run the command that follows them; deny rules look through them
+const COMMAND_WRAPPERS = new Set([
+  'sudo',
+  'doas',
+  'env',
+  'nohup',
+  'exec',
+  'nice',
+  'time',
+  'xargs'
+]);
+
+// Folders whose programs are matched by name alone on the allow list
+const SYSTEM_BIN_DIRS = new Set([
+  '/bin',
+  '/sbin',
+  '/usr/bin',
+  '/usr/sbin',
+  '/usr/local/bin'
+]);
+
+const SHELLS = new Set([
+  'sh',
+  'bash',
+  'dash',
+  'zsh'
+]);
+
+export type PolicyVerdict = 'run' | 'simulate' | 'confirm' | 'deny';
+
+export interface PolicyDecision {
+  verdict: PolicyVerdict;
+  reason: string;
+}
+
+export type CommandPolicy = ReturnType<typeof createCommandPolicy>;
+
+interface Rule {
+  source: string;
+  words: RegExp[];
+  // A trailing `*` word matches any remaining arguments
+  openEnded: boolean;
+}
+
+// `*` matches any characters within a word
+function globToRegExp (word: string): RegExp {
+  const escaped = word.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+}
+
+function compileRule (source: string): Rule {
+  const words = source.trim().split(/\s+/);
+  const openEnded = words.length > 1 && words[words.length - 1] === '*';
+
+  return {
+    source,
+    openEnded,
+    words: (openEnded ? words.slice(0, -1) : words).map(globToRegExp)
+  };
+}
+
+function matchesRule (rule: Rule, words: string[]): boolean {
+  if (words.length < rule.words.length || (!rule.openEnded && words.length !== rule.words.length)) {
+    return false;
+  }
+  return rule.words.every((pattern, index) => pattern.test(words[index]));
+}
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+// Leading `NAME=value` assignments set the environment of the command and are not part of it
+function stripAssignments (words: string[]): string[] {
+  const start = words.findIndex((word) => !ASSIGNMENT.test(word));
+  return start === -1 ? [] : words.slice(start);
+}
+
+function normalizeProgram (words: string[]): string[] {
+  return words.length === 0 ? words : [words[0].split('/').pop() ?? words[0], ...words.slice(1)];
+}
+
+// Like `normalizeProgram`, but a path outside the system bin folders keeps its folder and so matches no rule by name
+function normalizeAllowedProgram (words: string[]): string[] {
+  if (words.length === 0 || !words[0].includes('/')) {
+    return words;
+  }
+
+  const separator = words[0].lastIndexOf('/');
+  const folder = words[0].slice(0, separator) || '/';
+  return SYSTEM_BIN_DIRS.has(folder) ? [words[0].slice(separator + 1), ...words.slice(1)] : words;
+}
+
+/**
+ * Every word list a simple command may execute, for deny checks: the
+ * command itself, the command behind wrappers like `sudo`, and the
+ * commands of an `sh -c` script.
+ */
+function expandForDenyCheck (words: string[]): string[][] {
+  const command = normalizeProgram(stripAssignments(words));
+  if (command.length === 0) {
+    return [];
+  }
+
+  const [program, ...args] = command;
+  const expanded = [command];
+
+  // Wrapper options vary, so every tail of the arguments is checked as a command
+  if (COMMAND_WRAPPERS.has(program)) {
+    args.forEach((_, index) => expanded.push(...expandForDenyCheck(args.slice(index))));
+  }
+
+  const scriptIndex = args.indexOf('-c');
+  if (SHELLS.has(program) && scriptIndex !== -1 && args[scriptIndex + 1]) {
+    try {
+      for (const { words: scriptWords } of parseShellCommand(args[scriptIndex + 1])) {
+        expanded.push(...expandForDenyCheck(scriptWords));
+      }
+    } catch {
+      // Left to the shell to reject
+    }
+  }
+
+  return expanded;
+}
+
+// `rm` with a recursive flag (`-r`, `-R`, `--recursive`, alone or combined like `-rf`) and `/` or `/*` as an operand
+function removesRoot (words: string[]): boolean {
+  const [program, ...args] = words;
+  if (program !== 'rm') {
+    return false;
+  }
+
+  const endOfOptions = args.indexOf('--');
+  const options = endOfOptions === -1 ? args : args.slice(0, endOfOptions);
+  const recursive = options.some((arg) => arg === '--recursive' || (/^-[^-]*[rR]/).test(arg));
+  const operands = endOfOptions === -1
+    ? args.filter((arg) => !arg.startsWith('-'))
+    : [...options.filter((arg) => !arg.startsWith('-')), ...args.slice(endOfOptions + 1)];
+
+  return recursive && operands.some((operand) => operand === '/' || operand === '/*');
+}
+
+function writesToFile (command: SimpleCommand): string | null {
+  const write = command.redirects.find(({ operator, target }) => {
+    // `2>&1` duplicates a descriptor rather than opening a file
+    const duplicatesDescriptor = operator.endsWith('&') && (/^(\d+|-)$/).test(target);
+    return operator.includes('>') && target !== '/dev/null' && !duplicatesDescriptor;
+  });
+
+  return write ? write.target : null;
+}
+
+/**
+ * Creates the policy that decides how a (fully interpolated) shell command
+ * is handled. Denied commands never run. Commands marked `safe` by the
+ * config and commands whose every part is on the allow list run in every
+ * mode; anything else depends on the execution mode.
+ */
+export function createCommandPolicy (config: { executionMode?: ExecutionMode; commandPolicy?: CommandPolicyRules } = {}) {
+  const mode: ExecutionMode = config.executionMode ?? 'dry-run';
+  const allowRules = [...DEFAULT_ALLOW_RULES, ...config.commandPolicy?.allow ?? []].map(compileRule);
+  const denyRules = [...DEFAULT_DENY_RULES, ...config.commandPolicy?.deny ?? []].map(compileRule);
+
+  const findRule = (rules: Rule[], words: string[]) => rules.find((rule) => matchesRule(rule, words));
+
+  const notAllowed = (command: SimpleCommand): string | null => {
+    const words = stripAssignments(command.words);
+    const target = writesToFile(command);
+
+    // `PATH`, `LD_PRELOAD` and the like change what a listed command runs
+    if (words.length < command.words.length) {
+      return `sets ${command.words[0].split('=')[0]}`;
+    }
+    if (target) {
+      return `writes to ${target}`;
+    }
+    if (words.length > 0 && !findRule(allowRules, normalizeAllowedProgram(words))) {
+      return `"${words.join(' ')}" is not on the allow list`;
+    }
+    return null;
+  };
+
+  const evaluate = (command: string, safe?: boolean): PolicyDecision => {
+    let parsed: SimpleCommand[];
+    try {
+      parsed = parseShellCommand(command);
+    } catch (error) {
+      return { verdict: 'deny', reason: `cannot be parsed: ${error.message}` };
+    }
+
+    for (const simpleCommand of parsed) {
+      for (const words of expandForDenyCheck(simpleCommand.words)) {
+        if (removesRoot(words)) {
+          return { verdict: 'deny', reason: 'recursively removes /' };
+        }
+        const rule = findRule(denyRules, words);
+        if (rule) {
+          return { verdict: 'deny', reason: `matches deny rule "${rule.source}"` };
+        }
+      }
+    }
+
+    if (safe) {
+      return { verdict: 'run', reason: 'marked safe' };
+    }
+
+    const blocked = parsed.map(notAllowed).find((reason) => reason !== null);
+    if (!blocked) {
+      return { verdict: 'run', reason: 'only reads system state' };
+    }
+
+    switch (mode) {
+      case 'execute':
+        return { verdict: 'run', reason: 'execution mode is execute' };
+      case 'confirm-each':
+        return { verdict: 'confirm', reason: blocked };
+      default:
+        return { verdict: 'simulate', reason: blocked };
+    }
+  };
+
+  return { mode, evaluate };
+}
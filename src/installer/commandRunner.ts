@@ -0,0 +1,212 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+
+const DEFAULT_TIMEOUT = 30000;
+// Time a command gets to exit after SIGTERM before it is killed outright
+const KILL_GRACE_PERIOD = 5000;
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface ShellCommandOptions {
+  timeout?: number;
+  onOutput?: (stream: OutputStream, data: string) => void;
+  // Aborting kills the command and everything it started
+  signal?: AbortSignal;
+  // Added to the environment the command inherits, e.g. secrets it refers to
+  env?: Record<string, string>;
+  // Written to the command's input, which is then closed unless `expect` is given
+  stdin?: string;
+  // Keeps the input open and answers output that matches, one reply at a time
+  expect?: ExpectHandler[];
+}
+
+export interface ExpectHandler {
+  pattern: RegExp;
+  // The reply to `question`, the line of output that matched. It is written
+  // with a newline; a rejection stops the command with its message.
+  reply: (question: string) => Promise<string>;
+}
+
+export interface ShellCommandResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  output: string;
+  error?: string;
+}
+
+/**
+ * Sends SIGTERM to the process group of `child`, then SIGKILL if it has not
+ * exited after the grace period. Windows has no process groups, so the tree
+ * is killed with `taskkill` instead.
+ */
+function killProcessTree (child: ChildProcess) {
+  if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+
+  if (process.platform === 'win32') {
+    spawn('taskkill', [
+      '/pid',
+      String(child.pid),
+      '/T',
+      '/F'
+    ]);
+    return;
+  }
+
+  const signalGroup = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-child.pid, signal);
+    } catch {
+      // The group is already gone
+    }
+  };
+
+  signalGroup('SIGTERM');
+  const timer = setTimeout(() => signalGroup('SIGKILL'), KILL_GRACE_PERIOD);
+  timer.unref();
+  child.once('exit', () => clearTimeout(timer));
+}
+
+/**
+ * Runs a command through the system shell, streaming its output as it
+ * arrives. The returned promise never rejects: spawn errors, timeouts and
+ * aborts are reported through `error` with a `null` exit code. The command
+ * runs in its own process group so a timeout or abort also stops whatever
+ * it started. Input is closed right away unless `expect` handlers answer
+ * the command's questions.
+ */
+export function runShellCommand (command: string, options: ShellCommandOptions = {}): Promise<ShellCommandResult> {
+  const { timeout = DEFAULT_TIMEOUT, onOutput, signal, env, stdin, expect } = options;
+
+  return new Promise((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    let output = '';
+    let settled = false;
+    // Set when the command is being killed, and reported instead of its exit status
+    let killReason: string | null = null;
+    // Output since the last reply, which `expect` patterns are matched against
+    let unanswered = '';
+    let replying = false;
+
+    if (signal?.aborted) {
+      resolve({ exitCode: null, stdout, stderr, output, error: 'Cancelled by user' });
+      return;
+    }
+
+    const finish = (exitCode: number | null, error?: string) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      resolve({ exitCode, stdout, stderr, output, error });
+    };
+
+    const kill = (reason: string) => {
+      killReason ??= reason;
+      killProcessTree(child);
+      // Don't wait forever on output pipes held open by a process that left the group
+      setTimeout(() => finish(null, killReason ?? reason), KILL_GRACE_PERIOD * 2).unref();
+    };
+
+    const onAbort = () => kill('Cancelled by user');
+
+    const child = spawn(command, {
+      shell: true,
+      detached: process.platform !== 'win32',
+      env: env ? { ...process.env, ...env } : undefined
+    });
+    signal?.addEventListener('abort', onAbort);
+
+    // A command that exits before reading all of its input is not an error here
+    child.stdin.on('error', () => {});
+    if (stdin !== undefined) {
+      child.stdin.write(stdin);
+    }
+    if (!expect?.length) {
+      child.stdin.end();
+    }
+
+    const answer = async () => {
+      // A reply in progress picks up whatever arrived while it waited
+      while (!replying) {
+        if (settled) {
+          return;
+        }
+        let handler: ExpectHandler | undefined;
+        let match: RegExpExecArray | null = null;
+        for (const candidate of expect) {
+          // A `g` or `y` pattern starts where its last match ended otherwise
+          candidate.pattern.lastIndex = 0;
+          match = candidate.pattern.exec(unanswered);
+          if (match) {
+            handler = candidate;
+            break;
+          }
+        }
+        if (!handler || !match) {
+          return;
+        }
+
+        const end = match.index + match[0].length;
+        const question = unanswered.slice(0, end)
+          .split('\n')
+          .pop()
+          .trim();
+        unanswered = unanswered.slice(end);
+        replying = true;
+        try {
+          const reply = await handler.reply(question);
+          if (!child.stdin.destroyed) {
+            child.stdin.write(`${reply}\n`);
+          }
+        } catch (error) {
+          kill(error.message);
+          return;
+        } finally {
+          replying = false;
+        }
+      }
+    };
+
+    const onData = (stream: OutputStream, chunk: string) => {
+      output += chunk;
+      onOutput?.(stream, chunk);
+      if (expect?.length) {
+        unanswered += chunk;
+        answer();
+      }
+    };
+
+    child.stdout.on('data', (data: Buffer) => {
+      const chunk = data.toString();
+      stdout += chunk;
+      onData('stdout', chunk);
+    });
+
+    child.stderr.on('data', (data: Buffer) => {
+      const chunk = data.toString();
+      stderr += chunk;
+      onData('stderr', chunk);
+    });
+
+    child.on('close', (code) => {
+      if (killReason) {
+        finish(null, killReason);
+      } else if (code === null) {
+        finish(null, 'Command was terminated');
+      } else {
+        finish(code, code === 0 ? undefined : `Command exited with code ${code}`);
+      }
+    });
+
+    child.on('error', (error) => {
+      finish(null, error.message);
+    });
+
+    const timer = setTimeout(() => kill('Timeout exceeded'), timeout);
+  });
+}
@@ -0,0 +1,53 @@
+import path from 'node:path';
+
+import type { InstallerConfig, NextAction } from '@/app/types/installer-config';
+import type { CompletionInfo } from '@/app/types/installer-run';
+
+import { evaluateCondition } from './conditions';
+import { getSummary, renderOrEmpty } from './summary';
+import type { Variables } from './variables';
+
+/**
+ * Renders `config.completion` for a finished run: its texts, the
+ * installation summary and the next actions whose condition holds.
+ * `variables` should have secrets masked.
+ */
+export function getCompletionInfo (config: InstallerConfig, variables: Variables): CompletionInfo {
+  const completion = config.completion ?? {};
+  const nextActions = (completion.nextActions ?? [])
+    .map((action, index) => ({ action, index }))
+    .filter(({ action }) => !action.condition || evaluateCondition(action.condition, variables))
+    .map(({ action, index }) => ({
+      index,
+      type: action.type,
+      label: renderOrEmpty(action.label, variables) || action.label,
+      description: action.description && renderOrEmpty(action.description, variables)
+    }));
+
+  return {
+    title: completion.title && renderOrEmpty(completion.title, variables),
+    message: completion.message && renderOrEmpty(completion.message, variables),
+    summary: getSummary(config, variables),
+    nextActions
+  };
+}
+
+/**
+ * The URL or absolute path a next action opens. Relative paths are
+ * resolved against `baseDir`, the directory of the config file; only web
+ * and mail links are opened.
+ */
+export function resolveActionTarget (action: NextAction, variables: Variables, baseDir: string): string {
+  const target = renderOrEmpty(action.type === 'openUrl' ? action.url : action.path, variables);
+  if (!target) {
+    throw new Error(`Cannot render the target of "${action.label}"`);
+  }
+
+  if (action.type !== 'openUrl') {
+    return path.resolve(baseDir, target);
+  }
+  if (!(/^(https?|mailto):/i).test(target)) {
+    throw new Error(`Only http, https and mailto links can be opened (got "${target}")`);
+  }
+  return target;
+}
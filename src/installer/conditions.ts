@@ -0,0 +1,18 @@
+import { evaluateExpression } from '@/app/lib/expression';
+import { revealSecrets } from '@/app/lib/secret';
+
+import type { Variables } from './variables';
+
+/**
+ * Evaluates an `InstallStep` or `InstallCommand` condition with the
+ * current variables in scope; secrets compare by their value. Conditions
+ * that throw count as not met.
+ */
+export function evaluateCondition (condition: string, variables: Variables): boolean {
+  try {
+    return Boolean(evaluateExpression(condition, revealSecrets(variables)));
+  } catch (error) {
+    console.error('Error evaluating condition:', condition, error);
+    return false;
+  }
+}
@@ -0,0 +1,330 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { parseExpression } from '@/app/lib/expression';
+import type { ConfigIssue, ConfigLoadResult, InstallCommand, InstallerConfig, NextAction, OptionsSource } from '@/app/types/installer-config';
+
+import Ajv, { type ErrorObject } from 'ajv';
+import { parse as parseYaml } from 'yaml';
+
+import { findStepGraphIssues } from './stepGraph';
+import { compareVersions, parseCoreCount, parseSize, REQUIRED_CHECK_FIELDS } from './systemChecks';
+
+import schema from '../../schema/installer-config.schema.json';
+
+const validateSchema = new Ajv({ allErrors: true, verbose: true }).compile<InstallerConfig>(schema);
+
+/** Thrown when an installer config cannot be read or does not match the schema. */
+export class InstallerConfigError extends Error {
+  constructor (readonly configPath: string, readonly issues: ConfigIssue[]) {
+    super(`Invalid installer config ${configPath}:\n${issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'InstallerConfigError';
+  }
+}
+
+// `/installSteps/2/commands/0` -> `$.installSteps[2].commands[0]`
+function toJsonPath (instancePath: string): string {
+  return instancePath
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((jsonPath, key) => ((/^\d+$/).test(key) ? `${jsonPath}[${key}]` : `${jsonPath}.${key}`), '$');
+}
+
+function toIssue (error: ErrorObject): ConfigIssue {
+  switch (error.keyword) {
+    case 'required':
+      return { path: toJsonPath(`${error.instancePath}/${error.params.missingProperty}`), message: 'is required' };
+    case 'additionalProperties':
+      return { path: toJsonPath(`${error.instancePath}/${error.params.additionalProperty}`), message: 'is not a known property' };
+    case 'enum': {
+      const allowed = (error.params.allowedValues as unknown[]).map((value) => JSON.stringify(value)).join(', ');
+      return { path: toJsonPath(error.instancePath), message: `must be one of ${allowed} (got ${JSON.stringify(error.data)})` };
+    }
+    default:
+      return { path: toJsonPath(error.instancePath), message: error.message ?? 'is invalid' };
+  }
+}
+
+// `key` names the property that holds the condition at `jsonPath`
+function checkCondition (condition: string | undefined, jsonPath: string, issues: ConfigIssue[], key = 'condition') {
+  if (!condition) {
+    return;
+  }
+  try {
+    parseExpression(condition);
+  } catch (error) {
+    issues.push({ path: `${jsonPath}.${key}`, message: error.message });
+  }
+}
+
+function checkPattern (pattern: string | undefined, jsonPath: string, issues: ConfigIssue[]) {
+  if (!pattern) {
+    return;
+  }
+  try {
+    RegExp(pattern);
+  } catch (error) {
+    issues.push({ path: jsonPath, message: error.message });
+  }
+}
+
+const OPTIONS_SOURCE_KEYS = [
+  'command',
+  'file',
+  'variable'
+] as const;
+
+// `optionsFrom` reads choices, so it only fits fields and prompts that offer them
+function checkOptionsSource (source: OptionsSource | undefined, type: string | undefined, jsonPath: string, issues: ConfigIssue[]) {
+  if (!source) {
+    return;
+  }
+  if (type !== 'select' && type !== 'multiselect') {
+    issues.push({ path: jsonPath, message: 'only select and multiselect fields and prompts have options' });
+  }
+  if (OPTIONS_SOURCE_KEYS.filter((key) => source[key] !== undefined).length !== 1) {
+    issues.push({ path: jsonPath, message: 'must have exactly one of "command", "file" and "variable"' });
+  }
+  checkPattern(source.pattern, `${jsonPath}.pattern`, issues);
+}
+
+function checkCommands (commands: InstallCommand[] | undefined, jsonPath: string, issues: ConfigIssue[]) {
+  commands?.forEach((command, index) => {
+    const commandPath = `${jsonPath}[${index}]`;
+    checkCondition(command.condition, commandPath, issues);
+    checkPattern(command.successPattern, `${commandPath}.successPattern`, issues);
+    checkPattern(command.failurePattern, `${commandPath}.failurePattern`, issues);
+    checkPattern(command.retryOn?.output, `${commandPath}.retryOn.output`, issues);
+    command.expect?.forEach((rule, ruleIndex) => checkPattern(rule.pattern, `${commandPath}.expect[${ruleIndex}].pattern`, issues));
+    checkOptionsSource(command.optionsFrom, command.promptType, `${commandPath}.optionsFrom`, issues);
+    checkCommands(command.rollback, `${commandPath}.rollback`, issues);
+  });
+}
+
+// Conditions, patterns and option sources, which the schema cannot check on its own
+function findExpressionIssues (config: InstallerConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  config.preChecks.forEach((check, index) => {
+    const checkPath = `$.preChecks[${index}]`;
+    checkPattern(check.expectedPattern, `${checkPath}.expectedPattern`, issues);
+    checkPattern(check.successPattern, `${checkPath}.successPattern`, issues);
+    checkPattern(check.failurePattern, `${checkPath}.failurePattern`, issues);
+  });
+
+  config.configFields.forEach((field, index) => {
+    checkCondition(field.visibleWhen, `$.configFields[${index}]`, issues, 'visibleWhen');
+    checkCondition(field.requiredWhen, `$.configFields[${index}]`, issues, 'requiredWhen');
+    checkOptionsSource(field.optionsFrom, field.type, `$.configFields[${index}].optionsFrom`, issues);
+  });
+
+  config.installSteps.forEach((step, index) => {
+    const stepPath = `$.installSteps[${index}]`;
+    checkCondition(step.condition, stepPath, issues);
+    checkCommands(step.commands, `${stepPath}.commands`, issues);
+    checkCommands(step.rollback, `${stepPath}.rollback`, issues);
+  });
+
+  config.postInstall?.forEach((task, index) => checkCondition(task.condition, `$.postInstall[${index}]`, issues));
+  config.completion?.nextActions?.forEach((action, index) => checkCondition(action.condition, `$.completion.nextActions[${index}]`, issues));
+
+  return issues;
+}
+
+// The field each kind of next action works on
+const NEXT_ACTION_FIELDS: Record<NextAction['type'], keyof NextAction> = {
+  openUrl: 'url',
+  openFolder: 'path',
+  runCommand: 'cmd',
+  showReadme: 'path'
+};
+
+function findNextActionIssues (config: InstallerConfig): ConfigIssue[] {
+  return (config.completion?.nextActions ?? []).flatMap((action, index) => {
+    const field = NEXT_ACTION_FIELDS[action.type];
+    return action[field] ? [] : [{ path: `$.completion.nextActions[${index}]`, message: `${action.type} actions need "${field}"` }];
+  });
+}
+
+// Every field is on exactly one page, and pages only list fields that exist
+function findConfigPageIssues (config: InstallerConfig): ConfigIssue[] {
+  if (!config.configPages?.length) {
+    return [];
+  }
+
+  const issues: ConfigIssue[] = [];
+  const fieldIds = new Set(config.configFields.map((field) => field.id));
+  const pageIds = new Set<string>();
+  const placed = new Set<string>();
+
+  config.configPages.forEach((page, pageIndex) => {
+    const pagePath = `$.configPages[${pageIndex}]`;
+    if (pageIds.has(page.id)) {
+      issues.push({ path: `${pagePath}.id`, message: `duplicate page id "${page.id}"` });
+    }
+    pageIds.add(page.id);
+    checkCondition(page.visibleWhen, pagePath, issues, 'visibleWhen');
+
+    page.sections.forEach((section, sectionIndex) => {
+      section.fields.forEach((id, index) => {
+        const fieldPath = `${pagePath}.sections[${sectionIndex}].fields[${index}]`;
+        if (!fieldIds.has(id)) {
+          issues.push({ path: fieldPath, message: `unknown config field "${id}"` });
+        } else if (placed.has(id)) {
+          issues.push({ path: fieldPath, message: `config field "${id}" is already on a page` });
+        }
+        placed.add(id);
+      });
+    });
+  });
+
+  config.configFields.forEach((field, index) => {
+    if (!placed.has(field.id)) {
+      issues.push({ path: `$.configFields[${index}]`, message: `config field "${field.id}" is not on any config page` });
+    }
+  });
+
+  return issues;
+}
+
+// A summary item shows either a variable or a template
+function findSummaryIssues (config: InstallerConfig): ConfigIssue[] {
+  return (config.summary?.items ?? []).flatMap((item, index) => (
+    (item.variable === undefined) === (item.value === undefined)
+      ? [{ path: `$.summary.items[${index}]`, message: 'must have either "variable" or "value"' }]
+      : []
+  ));
+}
+
+// Fields a pre-check needs for its type, and requirements the installer must be able to compare
+function findPreCheckIssues (config: InstallerConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  config.preChecks.forEach((check, index) => {
+    const checkPath = `$.preChecks[${index}]`;
+    if (!check.type && !check.command) {
+      issues.push({ path: checkPath, message: 'must have a command or a type' });
+    }
+    for (const field of REQUIRED_CHECK_FIELDS[check.type] ?? []) {
+      if (check[field] === undefined) {
+        issues.push({ path: checkPath, message: `${check.type} checks need "${field}"` });
+      }
+    }
+    for (const field of ['minVersion', 'maxVersion'] as const) {
+      if (check[field] && compareVersions(check[field], '0') === null) {
+        issues.push({ path: `${checkPath}.${field}`, message: `must be a version such as "22.04" (got "${check[field]}")` });
+      }
+    }
+    if (!check.minRequired) {
+      return;
+    }
+    if (check.type === 'cpu' && parseCoreCount(check.minRequired) === null) {
+      issues.push({ path: `${checkPath}.minRequired`, message: `must be a number of CPU cores (got "${check.minRequired}")` });
+    }
+    if ((check.type === 'diskSpace' || check.type === 'memory') && parseSize(check.minRequired) === null) {
+      issues.push({ path: `${checkPath}.minRequired`, message: `must be a size such as "10G" or "512M" (got "${check.minRequired}")` });
+    }
+  });
+
+  return issues;
+}
+
+/** Checks a parsed config against the installer config schema, then its conditions, patterns, pre-checks, config pages, completion screen and step dependencies. */
+export function validateInstallerConfig (config: unknown): ConfigIssue[] {
+  if (!validateSchema(config)) {
+    return (validateSchema.errors ?? []).map(toIssue);
+  }
+  return [
+    ...findExpressionIssues(config),
+    ...findPreCheckIssues(config),
+    ...findNextActionIssues(config),
+    ...findSummaryIssues(config),
+    ...findConfigPageIssues(config),
+    ...findStepGraphIssues(config.installSteps)
+  ];
+}
+
+export interface ConfigPathOptions {
+  argv?: string[];
+  env?: NodeJS.ProcessEnv;
+  // Directories searched in order for a config with one of the default names
+  searchDirs?: string[];
+}
+
+// Advanced config first, falling back to the basic one
+const DEFAULT_CONFIG_NAMES = ['installer-config-advanced', 'installer-config'].flatMap((name) => [
+  `${name}.json`,
+  `${name}.yaml`,
+  `${name}.yml`
+]);
+
+function getConfigArgument (argv: string[]): string | undefined {
+  const index = argv.findIndex((arg) => arg === '--config' || arg.startsWith('--config='));
+  if (index === -1) {
+    return undefined;
+  }
+
+  return argv[index].startsWith('--config=') ? argv[index].slice('--config='.length) : argv[index + 1];
+}
+
+async function fileExists (filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves the config file to load: a `--config` argument, then the
+ * `INSTALLER_CONFIG` environment variable, then the first default-named file
+ * in `searchDirs`. Explicit paths are returned even when missing so the load
+ * error names the file the user asked for.
+ */
+export async function resolveConfigPath ({ argv = [], env = {}, searchDirs = [] }: ConfigPathOptions): Promise<string> {
+  const explicitPath = getConfigArgument(argv) || env.INSTALLER_CONFIG;
+  if (explicitPath) {
+    return path.resolve(explicitPath);
+  }
+
+  for (const dir of searchDirs) {
+    for (const name of DEFAULT_CONFIG_NAMES) {
+      const candidate = path.join(dir, name);
+      if (await fileExists(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  return path.join(searchDirs[searchDirs.length - 1] ?? process.cwd(), 'installer-config.json');
+}
+
+function parseConfigText (text: string, configPath: string): unknown {
+  const extension = path.extname(configPath).toLowerCase();
+  return extension === '.yaml' || extension === '.yml' ? parseYaml(text) : JSON.parse(text);
+}
+
+/** Reads and validates a config file. Problems are reported as issues rather than thrown. */
+export async function loadInstallerConfig (configPath: string): Promise<ConfigLoadResult> {
+  let config: unknown;
+
+  try {
+    config = parseConfigText(await fs.readFile(configPath, 'utf-8'), configPath);
+  } catch (error) {
+    return { configPath, config: null, issues: [{ path: '$', message: error.message }] };
+  }
+
+  const issues = validateInstallerConfig(config);
+  return { configPath, config: issues.length === 0 ? config as InstallerConfig : null, issues };
+}
+
+export async function readInstallerConfig (configPath: string): Promise<InstallerConfig> {
+  const { config, issues } = await loadInstallerConfig(configPath);
+
+  if (!config) {
+    throw new InstallerConfigError(configPath, issues);
+  }
+  return config;
+}
@@ -0,0 +1,930 @@
+import { randomUUID } from 'node:crypto';
+
+import { getVisibleValues } from '@/app/lib/config-fields';
+import { isSecret, maskSecrets, protectSecrets, redactValue, Secret, SECRET_MASK } from '@/app/lib/secret';
+import { renderCommand } from '@/app/lib/template';
+import type { InstallCommand, InstallerConfig, InstallStep, UserConfig } from '@/app/types/installer-config';
+import type {
+  CommandAttempt,
+  Outcome,
+  PreCheckOverride,
+  PromptRequest,
+  RollbackResult,
+  RunEvent,
+  RunEventBody,
+  RunState,
+  StepCommandResult
+} from '@/app/types/installer-run';
+
+import { type AskReply, createCommandInput } from './commandInput';
+import { createCommandPolicy } from './commandPolicy';
+import { runShellCommand, type ShellCommandResult } from './commandRunner';
+import { evaluateCondition } from './conditions';
+import {
+  commandKey,
+  createJournal,
+  type JournalEntry,
+  removeJournal,
+  type RunJournal,
+  type SecretStore,
+  writeJournal
+} from './journal';
+import { createOptionsLoader } from './optionsSource';
+import { evaluateOutcome } from './outcome';
+import { createPostInstallStep } from './postInstall';
+import { getMaxAttempts, getRetryDelay, shouldRetry, waitForRetry } from './retryPolicy';
+import { createRunLog, type RunLog } from './runLog';
+import { resolveStepDependencies } from './stepGraph';
+import type { Variables } from './variables';
+
+const DEFAULT_MAX_PARALLEL_STEPS = 4;
+
+export type RunEventListener = (event: RunEvent) => void;
+
+export type InstallationEngine = ReturnType<typeof createInstallationEngine>;
+
+export interface InstallationEngineOptions {
+  // File the run journal is written to; runs are not journaled without it
+  journalPath?: string;
+  // Encrypts secrets in the journal of configs with `persistSecrets`; they are not journaled without it
+  secretStore?: SecretStore;
+  // Directory each run writes its JSON Lines log and transcript to; runs are not logged without it
+  logDir?: string;
+}
+
+export interface RunOptions {
+  // Journal of an interrupted run; commands it lists as done are not run again
+  resumeFrom?: RunJournal;
+  // Folder of the config file, where `optionsFrom` files are looked up (default: the working directory)
+  configDir?: string;
+}
+
+type CommandOutcome = { status: JournalEntry['status']; exitCode?: number | null } | null;
+
+// What the command policy let happen to a shell command
+interface Authorization {
+  executable: string;
+  // Secrets the command refers to, passed through its environment
+  env: Record<string, string>;
+  outcome: 'run' | 'simulated' | 'declined' | 'denied';
+  reason: string;
+}
+
+// A step that has started, with the commands of it that completed
+interface AppliedStep {
+  step: InstallStep;
+  stepIndex: number;
+  commands: InstallCommand[];
+  completed: boolean;
+}
+
+interface RollbackAction {
+  step: InstallStep;
+  stepIndex: number;
+  command: InstallCommand;
+  scope: RollbackResult['scope'];
+}
+
+// Unwinds a run that the user cancelled; it is never reported as a step failure
+class RunCancelledError extends Error {
+  constructor () {
+    super('Cancelled by user');
+    this.name = 'RunCancelledError';
+  }
+}
+
+function createInitialState (): RunState {
+  return {
+    status: 'idle',
+    events: [],
+    variables: {},
+    pendingPrompt: null,
+    results: [],
+    rollbacks: [],
+    log: null
+  };
+}
+
+function formatCapturedValue (value: unknown): string {
+  if (isSecret(value)) {
+    return SECRET_MASK;
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  return String(value ?? '');
+}
+
+/**
+ * Creates the main-process installation engine. It executes the install
+ * steps of a config end to end, owns the variable store, and pauses on
+ * `prompt` commands until `answerPrompt` is called with the reply.
+ */
+export function createInstallationEngine (options: InstallationEngineOptions = {}) {
+  const listeners = new Set<RunEventListener>();
+  // Pending prompts by request id, with the prompt as the config gives it
+  const promptResolvers = new Map<string, { resolve: (value: unknown) => void; reject: (error: Error) => void; prompt: InstallCommand }>();
+  let state = createInitialState();
+  // Values captured before a run starts, e.g. by pre-checks. They survive `reset`.
+  const captured: Variables = {};
+  // Ignored pre-check failures, by check name, recorded at the start of the next run
+  const preCheckOverrides = new Map<string, PreCheckOverride>();
+  let journal: RunJournal | null = null;
+  let journaled = new Map<string, JournalEntry['status']>();
+  let runLog: RunLog | null = null;
+  // Values of the run's secrets, redacted from every event and result
+  let secrets = new Set<string>();
+  let persistSecrets = false;
+  let applied: AppliedStep[] = [];
+  let policy = createCommandPolicy();
+  let configDir = process.cwd();
+  const optionsLoader = createOptionsLoader();
+  let abortController = new AbortController();
+  let pauseRequested = false;
+  // Steps held by a pause; parallel steps each wait here
+  let pausedSteps: Array<() => void> = [];
+  // Prompts are asked one at a time, even when parallel steps reach them together
+  let promptQueue: Promise<unknown> = Promise.resolve();
+
+  const isRunning = () => state.status === 'running' || state.status === 'waiting' || state.status === 'paused';
+
+  const throwIfCancelled = () => {
+    if (abortController.signal.aborted) {
+      throw new RunCancelledError();
+    }
+  };
+
+  // Holds between commands while a pause is requested, until `resume` or `cancel`
+  const holdIfPaused = async () => {
+    if (!pauseRequested) {
+      return;
+    }
+
+    if (pausedSteps.length === 0) {
+      state.status = 'paused';
+      emit({ type: 'runPaused' });
+    }
+    await new Promise<void>((resolve) => {
+      pausedSteps.push(resolve);
+    });
+    throwIfCancelled();
+  };
+
+  const emit = (body: RunEventBody) => {
+    const event = { ...redactValue(body, secrets), seq: state.events.length, timestamp: Date.now() } as RunEvent;
+    state.events.push(event);
+    runLog?.write(event);
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const persistJournal = () => {
+    if (journal && options.journalPath) {
+      writeJournal(options.journalPath, journal, persistSecrets ? options.secretStore : undefined);
+    }
+  };
+
+  const recordCommand = (stepIndex: number, commandIndex: number, outcome: CommandOutcome) => {
+    if (!journal || !outcome) {
+      return;
+    }
+
+    journal.entries.push({ stepIndex, commandIndex, ...outcome, finishedAt: new Date().toISOString() });
+    journal.variables = { ...state.variables };
+    persistJournal();
+  };
+
+  const setVariable = (name: string, value: unknown, options: { fallback?: boolean } = {}) => {
+    state.variables[name] = value;
+    if (isSecret(value)) {
+      secrets.add(value.reveal());
+    }
+    emit({
+      type: 'variableCaptured',
+      name,
+      value: formatCapturedValue(value),
+      fallback: options.fallback
+    });
+  };
+
+  const spawnShell = (
+    command: InstallCommand,
+    executable: string,
+    env: Record<string, string>,
+    stepIndex: number,
+    commandIndex: number,
+    signal?: AbortSignal
+  ) => {
+    let input: ReturnType<typeof createCommandInput>;
+    try {
+      input = createCommandInput(command, state.variables, askReply(stepIndex, commandIndex, command));
+    } catch (error) {
+      return Promise.resolve<ShellCommandResult>({ exitCode: null, stdout: '', stderr: '', output: '', error: `Cannot render input: ${error.message}` });
+    }
+
+    return runShellCommand(executable, {
+      timeout: command.timeout,
+      signal,
+      env,
+      ...input,
+      onOutput: (stream, data) => emit({ type: 'commandOutput', stepIndex, commandIndex, stream, data })
+    });
+  };
+
+  // A prompt with `optionsFrom` is shown with the choices read for it, or its own `options` when they cannot be read
+  const loadPromptOptions = async (prompt: InstallCommand, refresh = false): Promise<Pick<PromptRequest, 'prompt' | 'optionsError'>> => {
+    if (!prompt.optionsFrom) {
+      return { prompt };
+    }
+
+    const context = { variables: state.variables, policy, baseDir: configDir };
+    const { options, error } = await optionsLoader.load(prompt.optionsFrom, context, { refresh, fallback: prompt.options });
+    return { prompt: { ...prompt, options }, optionsError: error };
+  };
+
+  /**
+   * Shows a prompt once every earlier prompt has been answered, so steps
+   * running in parallel never ask at the same time. Choices are read when
+   * the prompt's turn comes, so they can depend on earlier answers.
+   */
+  const requestPrompt = (stepIndex: number, commandIndex: number, prompt: InstallCommand): Promise<unknown> => {
+    const ask = async () => {
+      const loaded = await loadPromptOptions(prompt);
+
+      return new Promise<unknown>((resolve, reject) => {
+        // A step prompt queued behind one that was pending when the run was cancelled.
+        // Rollback prompts (command index -1) are still asked.
+        if (abortController.signal.aborted && commandIndex !== -1) {
+          reject(new RunCancelledError());
+          return;
+        }
+
+        const request: PromptRequest = { id: randomUUID(), stepIndex, commandIndex, ...loaded };
+        promptResolvers.set(request.id, { resolve, reject, prompt });
+        state.pendingPrompt = request;
+        state.status = 'waiting';
+        emit({ type: 'prompt', request });
+      });
+    };
+
+    const answer = promptQueue.then(ask, ask);
+    promptQueue = answer.catch((error: unknown) => error);
+    return answer;
+  };
+
+  // Asks the user to answer an interactive command; hidden replies are redacted like any secret
+  const askReply = (stepIndex: number, commandIndex: number, command: InstallCommand): AskReply => async (rule, question) => {
+    const answer = await requestPrompt(stepIndex, commandIndex, {
+      type: 'prompt',
+      promptType: rule.hidden ? 'password' : 'input',
+      description: command.description,
+      message: rule.message ?? question,
+      allowEmpty: true
+    });
+    const reply = String(answer ?? '');
+
+    if (rule.hidden && reply) {
+      secrets.add(reply);
+    }
+    return reply;
+  };
+
+  /**
+   * Renders a shell command and asks the command policy whether it may run.
+   * In `confirm-each` mode the user is prompted for commands the policy does
+   * not allow on its own. A command that cannot be rendered is never run.
+   */
+  const authorizeShell = async (command: InstallCommand, stepIndex: number, commandIndex: number): Promise<Authorization> => {
+    const env: Record<string, string> = {};
+    let executable: string;
+    try {
+      executable = renderCommand(command.cmd, state.variables, env);
+    } catch (error) {
+      return { executable: command.cmd, env, outcome: 'denied', reason: `Cannot render command: ${error.message}` };
+    }
+    // What the command sees of a secret, filters applied, is redacted as well
+    Object.values(env).forEach((value) => secrets.add(value));
+    const decision = policy.evaluate(executable, command.safe);
+    const shown = command.sensitive ? '[REDACTED]' : executable;
+
+    switch (decision.verdict) {
+      case 'deny':
+        return { executable, env, outcome: 'denied', reason: `Blocked by command policy: ${decision.reason}` };
+      case 'simulate':
+        emit({ type: 'commandOutput', stepIndex, commandIndex, stream: 'stdout', data: `Would run: ${shown}\n` });
+        return { executable, env, outcome: 'simulated', reason: decision.reason };
+      case 'confirm': {
+        const approved = await requestPrompt(stepIndex, commandIndex, {
+          type: 'prompt',
+          promptType: 'confirm',
+          description: `Confirm: ${command.description}`,
+          message: `The command policy does not allow this command on its own. Run it?\n\n${shown}`,
+          default: false
+        });
+        return approved
+          ? { executable, env, outcome: 'run', reason: 'confirmed by user' }
+          : { executable, env, outcome: 'declined', reason: 'declined by user' };
+      }
+      default:
+        return { executable, env, outcome: 'run', reason: decision.reason };
+    }
+  };
+
+  /**
+   * Runs a shell command until it succeeds, its attempts run out, or a
+   * failure does not match `retryOn`. Waits between attempts grow by
+   * `retryBackoff` and end early when the run is cancelled.
+   */
+  const spawnWithRetries = async (
+    command: InstallCommand,
+    executable: string,
+    env: Record<string, string>,
+    stepIndex: number,
+    commandIndex: number,
+    description: string
+  ) => {
+    const { signal } = abortController;
+    const maxAttempts = getMaxAttempts(command);
+    const attempts: CommandAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      const result = await spawnShell(command, executable, env, stepIndex, commandIndex, signal);
+      const { success, error } = evaluateOutcome(command, result);
+
+      attempts.push({ attempt, exitCode: result.exitCode, error, durationMs: Date.now() - startedAt });
+
+      if (success || signal.aborted || attempt >= maxAttempts || !shouldRetry(command, result)) {
+        const durationMs = attempts.reduce((total, entry) => total + entry.durationMs, 0);
+        return { result, success, error, attempts, durationMs };
+      }
+
+      const delayMs = getRetryDelay(command, attempt);
+      emit({ type: 'commandRetry', stepIndex, commandIndex, description, attempt: attempt + 1, maxAttempts, delayMs, error });
+      await waitForRetry(delayMs, signal);
+    }
+  };
+
+  const runPrompt = async (stepIndex: number, commandIndex: number, command: InstallCommand) => {
+    const answer = await requestPrompt(stepIndex, commandIndex, command);
+    const value = command.promptType === 'password' && answer ? new Secret(String(answer)) : answer;
+
+    if (journal) {
+      journal.promptAnswers[commandKey(stepIndex, commandIndex)] = value;
+    }
+    if (command.captureAs) {
+      setVariable(command.captureAs, value);
+    }
+
+    return { status: 'completed' } as const;
+  };
+
+  const runShellStep = async (
+    step: InstallStep,
+    stepIndex: number,
+    command: InstallCommand,
+    commandIndex: number
+  ): Promise<CommandOutcome> => {
+    const { description } = command;
+
+    if (!command.cmd) {
+      emit({
+        type: 'commandComplete',
+        stepIndex,
+        commandIndex,
+        description,
+        success: false,
+        outcome: 'fail',
+        exitCode: null,
+        error: `No command specified for: ${description}`
+      });
+      return { status: 'completed', exitCode: null };
+    }
+
+    emit({ type: 'commandStart', stepIndex, commandIndex, description });
+
+    const { executable, env, outcome: authorization, reason } = await authorizeShell(command, stepIndex, commandIndex);
+    const shownCommand = command.sensitive ? '[REDACTED]' : executable;
+
+    if (authorization === 'declined') {
+      emit({ type: 'commandSkipped', stepIndex, commandIndex, description, reason: 'declined' });
+      return { status: 'skipped' };
+    }
+
+    // A denied command never runs; with `continueOnError` that is a warning like any other tolerated failure
+    if (authorization === 'denied') {
+      const outcome: Outcome = command.continueOnError ? 'warn' : 'fail';
+      state.results.push(redactValue({
+        step: step.name,
+        description,
+        success: false,
+        outcome,
+        output: '',
+        exitCode: null,
+        command: shownCommand,
+        error: reason
+      }, secrets));
+      emit({ type: 'commandComplete', stepIndex, commandIndex, description, success: false, outcome, exitCode: null, error: reason, commandLine: shownCommand });
+      if (command.continueOnError) {
+        return { status: 'skipped' };
+      }
+      throw new Error(reason);
+    }
+
+    // Nothing ran: only a default can be captured, and there is nothing to roll back
+    if (authorization === 'simulated') {
+      state.results.push(redactValue({
+        step: step.name,
+        description,
+        success: true,
+        outcome: 'pass',
+        output: `Would run: ${shownCommand}`,
+        exitCode: null,
+        command: shownCommand,
+        simulated: true
+      }, secrets));
+      emit({ type: 'commandComplete', stepIndex, commandIndex, description, success: true, outcome: 'pass', exitCode: null, simulated: true, commandLine: shownCommand });
+      if (command.captureAs && command.defaultValue !== undefined) {
+        setVariable(command.captureAs, command.defaultValue, { fallback: true });
+      }
+      return { status: 'skipped' };
+    }
+
+    // A rebooting command may never report back, so it is journaled as done before it runs
+    if (command.reboot) {
+      recordCommand(stepIndex, commandIndex, { status: 'completed', exitCode: null });
+    }
+
+    const { result, success, error, attempts, durationMs } = await spawnWithRetries(command, executable, env, stepIndex, commandIndex, description);
+    const cancelled = abortController.signal.aborted;
+    const usesDefault = Boolean(command.captureAs) && command.defaultValue !== undefined;
+    // A failure the config tolerates is a warning; the step carries on
+    const tolerated = !success && !cancelled && (command.continueOnError || usesDefault);
+    const outcome: Outcome = success ? 'pass' : tolerated ? 'warn' : 'fail';
+
+    state.results.push(redactValue({
+      step: step.name,
+      description,
+      success,
+      outcome,
+      output: result.output,
+      exitCode: result.exitCode,
+      command: shownCommand,
+      error,
+      attempts: command.retries ? attempts : undefined
+    }, secrets));
+
+    emit({ type: 'commandComplete', stepIndex, commandIndex, description, success, outcome, exitCode: result.exitCode, error, durationMs, commandLine: shownCommand });
+
+    if (cancelled) {
+      throw new RunCancelledError();
+    }
+
+    if (success) {
+      if (command.captureAs) {
+        setVariable(command.captureAs, (result.stdout || result.stderr).trim() || command.defaultValue || '');
+      }
+      return command.reboot ? null : { status: 'completed', exitCode: result.exitCode };
+    }
+
+    if (usesDefault) {
+      setVariable(command.captureAs, command.defaultValue, { fallback: true });
+    }
+    if (tolerated) {
+      return command.reboot ? null : { status: 'completed', exitCode: result.exitCode };
+    }
+
+    throw new Error(error);
+  };
+
+  const runCommand = async (
+    step: InstallStep,
+    stepIndex: number,
+    command: InstallCommand,
+    commandIndex: number
+  ): Promise<CommandOutcome> => {
+    const description = command.description ?? command.message ?? '';
+
+    if (journaled.has(commandKey(stepIndex, commandIndex))) {
+      emit({ type: 'commandSkipped', stepIndex, commandIndex, description, reason: 'journal' });
+      return null;
+    }
+
+    if (command.condition && !evaluateCondition(command.condition, state.variables)) {
+      emit({ type: 'commandSkipped', stepIndex, commandIndex, description, reason: 'condition' });
+      return { status: 'skipped' };
+    }
+
+    switch (command.type ?? 'command') {
+      case 'prompt':
+        return runPrompt(stepIndex, commandIndex, command);
+      case 'display':
+        emit({ type: 'display', stepIndex, commandIndex, title: command.title, content: command.content ?? [] });
+        return { status: 'completed' };
+      default:
+        return runShellStep(step, stepIndex, command, commandIndex);
+    }
+  };
+
+  const runStep = async (step: InstallStep, stepIndex: number) => {
+    if (step.condition && !evaluateCondition(step.condition, state.variables)) {
+      emit({ type: 'stepSkipped', stepIndex, name: step.name });
+      step.commands.forEach((_, commandIndex) => {
+        if (!journaled.has(commandKey(stepIndex, commandIndex))) {
+          recordCommand(stepIndex, commandIndex, { status: 'skipped' });
+        }
+      });
+      return;
+    }
+
+    emit({ type: 'stepStart', stepIndex, name: step.name, description: step.description });
+
+    const appliedStep: AppliedStep = { step, stepIndex, commands: [], completed: false };
+    applied.push(appliedStep);
+
+    for (const [commandIndex, command] of step.commands.entries()) {
+      try {
+        await holdIfPaused();
+        throwIfCancelled();
+
+        const outcome = await runCommand(step, stepIndex, command, commandIndex);
+        const status = outcome?.status ?? journaled.get(commandKey(stepIndex, commandIndex));
+
+        recordCommand(stepIndex, commandIndex, outcome);
+        if (status === 'completed') {
+          appliedStep.commands.push(command);
+        }
+      } catch (error) {
+        if (error instanceof RunCancelledError) {
+          throw error;
+        }
+        emit({ type: 'stepError', stepIndex, name: step.name, error: error.message });
+        throw new Error(`${step.name} failed: ${error.message}`);
+      }
+    }
+
+    appliedStep.completed = true;
+    emit({ type: 'stepComplete', stepIndex, name: step.name });
+  };
+
+  /**
+   * Runs the steps as a dependency graph, starting each one once the steps
+   * it waits for have finished, with at most `maxParallel` at a time. After
+   * a failure or cancel no further steps start; the running ones finish
+   * before the error is rethrown.
+   */
+  const runSteps = async (steps: InstallStep[], maxParallel: number) => {
+    const dependencies = resolveStepDependencies(steps);
+    const finished = new Set<number>();
+    const running = new Map<number, Promise<void>>();
+    let failure: Error | null = null;
+
+    const start = async (stepIndex: number) => {
+      try {
+        await runStep(steps[stepIndex], stepIndex);
+        finished.add(stepIndex);
+      } catch (error) {
+        // A cancel outranks the step failures it causes
+        failure = failure instanceof RunCancelledError ? failure : error;
+      } finally {
+        running.delete(stepIndex);
+      }
+    };
+
+    for (;;) {
+      if (!failure && abortController.signal.aborted) {
+        failure = new RunCancelledError();
+      }
+
+      if (!failure) {
+        const ready = steps
+          .map((_, stepIndex) => stepIndex)
+          .filter((stepIndex) => !finished.has(stepIndex) && !running.has(stepIndex))
+          .filter((stepIndex) => dependencies[stepIndex].every((dependency) => finished.has(dependency)));
+
+        for (const stepIndex of ready.slice(0, maxParallel - running.size)) {
+          running.set(stepIndex, start(stepIndex));
+        }
+      }
+
+      if (running.size === 0) {
+        break;
+      }
+      await Promise.race(running.values());
+    }
+
+    if (failure) {
+      throw failure;
+    }
+    if (finished.size < steps.length) {
+      throw new Error('Some steps could not start because of their dependencies');
+    }
+  };
+
+  /**
+   * Runs the post-install step, if the config has one. Its failures are
+   * warnings, so it never throws: a cancel or an error that still ends the
+   * step early is returned instead, after the step reported it.
+   */
+  const runPostInstall = async (config: InstallerConfig): Promise<Error | null> => {
+    const postInstallStep = createPostInstallStep(config);
+    if (!postInstallStep) {
+      return null;
+    }
+
+    const stepIndex = config.installSteps.length;
+    emit({ type: 'postInstallStart', stepIndex, count: postInstallStep.commands.length });
+    try {
+      await runStep(postInstallStep, stepIndex);
+      return null;
+    } catch (error) {
+      return error;
+    }
+  };
+
+  /**
+   * Undoes applied work after a failure, newest first. For each started
+   * step, the `rollback` list of the step (only if it completed) runs
+   * before the rollbacks of its completed commands in reverse order.
+   * A failing rollback does not stop the remaining ones.
+   */
+  const rollBack = async () => {
+    const actions: RollbackAction[] = [];
+
+    for (const { step, stepIndex, commands, completed } of [...applied].reverse()) {
+      if (completed) {
+        (step.rollback ?? []).forEach((command) => actions.push({ step, stepIndex, command, scope: 'step' }));
+      }
+      [...commands].reverse().forEach(({ rollback = [] }) => {
+        rollback.forEach((command) => actions.push({ step, stepIndex, command, scope: 'command' }));
+      });
+    }
+
+    const runnable = actions.filter(({ command }) => (command.type ?? 'command') === 'command' && command.cmd);
+    if (runnable.length === 0) {
+      return;
+    }
+
+    emit({ type: 'rollbackStart', count: runnable.length });
+
+    for (const { step, stepIndex, command, scope } of runnable) {
+      if (command.condition && !evaluateCondition(command.condition, state.variables)) {
+        continue;
+      }
+
+      emit({ type: 'rollbackCommandStart', stepIndex, description: command.description });
+
+      const { executable, env, outcome, reason } = await authorizeShell(command, stepIndex, -1);
+      const shownCommand = command.sensitive ? '[REDACTED]' : executable;
+      let rollback: RollbackResult;
+
+      if (outcome === 'run') {
+        const result = await spawnShell(command, executable, env, stepIndex, -1);
+        const { success, error } = evaluateOutcome(command, result);
+        rollback = {
+          step: step.name,
+          description: command.description,
+          scope,
+          success,
+          outcome: success ? 'pass' : 'fail',
+          exitCode: result.exitCode,
+          output: result.output,
+          command: shownCommand,
+          error
+        };
+      } else {
+        rollback = {
+          step: step.name,
+          description: command.description,
+          scope,
+          success: outcome === 'simulated',
+          outcome: outcome === 'simulated' ? 'pass' : 'fail',
+          exitCode: null,
+          output: outcome === 'simulated' ? `Would run: ${shownCommand}` : '',
+          command: shownCommand,
+          error: outcome === 'simulated' ? undefined : reason,
+          simulated: outcome === 'simulated'
+        };
+      }
+
+      state.rollbacks.push(redactValue(rollback, secrets));
+      emit({ type: 'rollbackCommandComplete', stepIndex, result: rollback });
+    }
+
+    emit({ type: 'rollbackComplete', success: state.rollbacks.every((rollback) => rollback.success) });
+  };
+
+  return {
+    subscribe (listener: RunEventListener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    /** The run state, with secrets masked. */
+    getState (): RunState {
+      return { ...state, variables: maskSecrets(state.variables) };
+    },
+
+    isRunning,
+
+    /**
+     * The variables of the current or last run as commands see them, with
+     * secrets still wrapped in `Secret`. Only for rendering commands; use
+     * `getState` for anything shown or sent on.
+     */
+    getVariables (): Variables {
+      return { ...state.variables };
+    },
+
+    /**
+     * Runs every install step of `config` in order. Resolves with the
+     * command results once the run completes or a step fails. With
+     * `resumeFrom`, variables are restored from the journal and the
+     * commands it records are skipped.
+     */
+    async run (config: InstallerConfig, userConfig: UserConfig, runOptions: RunOptions = {}): Promise<StepCommandResult[]> {
+      if (isRunning()) {
+        throw new Error('An installation is already running');
+      }
+
+      const { resumeFrom } = runOptions;
+      configDir = runOptions.configDir ?? process.cwd();
+      // Hidden fields are not part of the run
+      const protectedConfig = protectSecrets(config.configFields, getVisibleValues(config.configFields, userConfig, config.configPages));
+
+      state = createInitialState();
+      state.status = 'running';
+      state.variables = protectSecrets(config.configFields, resumeFrom ? { ...resumeFrom.variables } : { ...captured, ...protectedConfig });
+      journal = resumeFrom ? { ...resumeFrom, status: 'running' } : createJournal(randomUUID(), config, protectedConfig);
+      journaled = new Map(journal.entries.map((entry) => [commandKey(entry.stepIndex, entry.commandIndex), entry.status]));
+      applied = [];
+      secrets = new Set(Object.values(state.variables)
+        .filter(isSecret)
+        .map((secret) => secret.reveal()));
+      persistSecrets = config.persistSecrets ?? false;
+      runLog = options.logDir ? createRunLog(options.logDir, journal.runId, config) : null;
+      state.log = runLog?.paths ?? null;
+      policy = createCommandPolicy(config);
+      abortController = new AbortController();
+      pauseRequested = false;
+      persistJournal();
+      emit({ type: 'runStart', resumed: Boolean(resumeFrom), executionMode: policy.mode });
+      preCheckOverrides.forEach((override) => emit({ type: 'preCheckOverridden', override }));
+
+      try {
+        await runSteps(config.installSteps, Math.max(1, config.maxParallelSteps ?? DEFAULT_MAX_PARALLEL_STEPS));
+      } catch (error) {
+        const cancelled = error instanceof RunCancelledError;
+        await rollBack();
+
+        // Once anything was rolled back the journal no longer describes the machine
+        journal.status = 'failed';
+        if (state.rollbacks.length > 0 && options.journalPath) {
+          removeJournal(options.journalPath);
+        } else {
+          persistJournal();
+        }
+
+        state.status = cancelled ? 'cancelled' : 'failed';
+        emit({ type: 'runComplete', success: false, error: error.message, cancelled });
+        return state.results;
+      }
+
+      // Every install step is done, so whatever happens from here on nothing is rolled back
+      const postInstallError = await runPostInstall(config);
+      const cancelled = postInstallError instanceof RunCancelledError;
+
+      state.status = cancelled ? 'cancelled' : 'completed';
+      if (options.journalPath) {
+        removeJournal(options.journalPath);
+      }
+      emit(cancelled
+        ? { type: 'runComplete', success: false, error: postInstallError.message, cancelled }
+        : { type: 'runComplete', success: true });
+
+      return state.results;
+    },
+
+    /** Records a value that later runs expose as `{{name}}`. */
+    captureVariable (name: string, value: unknown) {
+      captured[name] = value;
+    },
+
+    getCapturedVariables (): Variables {
+      return captured;
+    },
+
+    /** Records that the user ignored a failed pre-check; runs log it until the check is run again. */
+    overridePreCheck (override: PreCheckOverride) {
+      preCheckOverrides.set(override.check, override);
+    },
+
+    clearPreCheckOverride (check: string) {
+      preCheckOverrides.delete(check);
+    },
+
+    /** Delivers the renderer's reply to a pending prompt. */
+    answerPrompt (id: string, value: unknown): boolean {
+      const resolver = promptResolvers.get(id);
+      if (!resolver) {
+        return false;
+      }
+
+      promptResolvers.delete(id);
+      state.pendingPrompt = null;
+      state.status = 'running';
+      emit({ type: 'promptAnswered', id });
+      resolver.resolve(value);
+      return true;
+    },
+
+    /** Reads the choices of a pending prompt with `optionsFrom` again. Resolves with the updated request, or null when it is no longer pending. */
+    async refreshPromptOptions (id: string): Promise<PromptRequest | null> {
+      const resolver = promptResolvers.get(id);
+      if (!resolver?.prompt.optionsFrom) {
+        return null;
+      }
+
+      const loaded = await loadPromptOptions(resolver.prompt, true);
+      if (state.pendingPrompt?.id !== id) {
+        return null;
+      }
+      state.pendingPrompt = { ...state.pendingPrompt, ...loaded };
+      return redactValue(state.pendingPrompt, secrets);
+    },
+
+    /** Fails the prompt's command, e.g. when no answer can be given without a user. */
+    rejectPrompt (id: string, reason: string): boolean {
+      const resolver = promptResolvers.get(id);
+      if (!resolver) {
+        return false;
+      }
+
+      promptResolvers.delete(id);
+      state.pendingPrompt = null;
+      state.status = 'running';
+      emit({ type: 'promptAnswered', id });
+      resolver.reject(new Error(reason));
+      return true;
+    },
+
+    /** Holds the run before its next command. The running command is left to finish. */
+    pause (): boolean {
+      if (!isRunning() || pauseRequested) {
+        return false;
+      }
+
+      pauseRequested = true;
+      return true;
+    },
+
+    resume (): boolean {
+      if (!pauseRequested) {
+        return false;
+      }
+
+      pauseRequested = false;
+      if (pausedSteps.length > 0) {
+        state.status = 'running';
+        emit({ type: 'runResumed' });
+        pausedSteps.forEach((release) => release());
+        pausedSteps = [];
+      }
+      return true;
+    },
+
+    /**
+     * Stops the run: the running command and everything it started is
+     * killed, a pending prompt is dropped, and completed work is rolled back.
+     */
+    cancel (): boolean {
+      if (!isRunning() || abortController.signal.aborted) {
+        return false;
+      }
+
+      abortController.abort();
+      pauseRequested = false;
+      pausedSteps.forEach((release) => release());
+      pausedSteps = [];
+
+      for (const [id, resolver] of promptResolvers) {
+        promptResolvers.delete(id);
+        emit({ type: 'promptAnswered', id });
+        resolver.reject(new RunCancelledError());
+      }
+      state.pendingPrompt = null;
+      return true;
+    },
+
+    /** Discards a finished run so the next `run` starts from a clean slate. */
+    reset (): boolean {
+      if (isRunning()) {
+        return false;
+      }
+
+      state = createInitialState();
+      return true;
+    }
+  };
+}
@@ -0,0 +1,599 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import readline from 'node:readline/promises';
+import { Writable } from 'node:stream';
+import { parseArgs } from 'node:util';
+
+import {
+  getFieldDefaults,
+  getVisibleFields,
+  hasTemplateDefault,
+  isFieldRequired,
+  renderFieldDefault,
+  validateConfigField,
+  validateConfigFields,
+  validatePromptAnswer
+} from '@/app/lib/config-fields';
+import { maskSecrets, protectSecrets, SECRET_MASK } from '@/app/lib/secret';
+import { renderText } from '@/app/lib/template';
+import type { ConfigField, ConfigFieldType, InstallCommand, InstallerConfig, SelectOption, UserConfig } from '@/app/types/installer-config';
+import type { PromptRequest, RunEvent } from '@/app/types/installer-run';
+
+import { createCommandPolicy } from './commandPolicy';
+import { InstallerConfigError, readInstallerConfig, resolveConfigPath } from './configLoader';
+import { createInstallationEngine, type InstallationEngine } from './engine';
+import { createOptionsLoader } from './optionsSource';
+import { runPreCheck } from './preChecks';
+import { formatSummary, formatValue, getSummary, getSummaryExportFormat } from './summary';
+
+export const HeadlessExitCode = {
+  Success: 0,
+  InstallFailed: 1,
+  PreChecksFailed: 2,
+  InvalidConfig: 3,
+  Usage: 64,
+  Cancelled: 130
+} as const;
+
+const USAGE = `Usage: installer --headless [--config <file>] [--answers <file>] [--non-interactive] [--ignore-check <name>...]
+                           [--log-dir <dir>] [--summary <file>]
+
+  --config <file>     Installer config, JSON or YAML (default: $INSTALLER_CONFIG, then installer-config-advanced.json
+                      or installer-config.json in the working directory)
+  --answers <file>    JSON object with values for config fields and prompts, keyed by field id or captureAs
+  --non-interactive   Never ask on the terminal; unanswered prompts use their default or fail
+  --ignore-check <name>
+                      Continue when this pre-check fails; only for checks marked overridable. Can be repeated
+  --log-dir <dir>     Write a JSON Lines log and a plain-text transcript of the run to this directory
+  --summary <file>    Write the installation summary to this file when the run succeeds; .md files get Markdown,
+                      .json files JSON and anything else plain text`;
+
+type Answers = Record<string, unknown>;
+
+const SKIP_REASONS = {
+  journal: 'already completed',
+  condition: 'skipped, condition not met',
+  declined: 'declined, not run'
+};
+
+interface Terminal {
+  ask: (question: string, options?: { hidden?: boolean }) => Promise<string>;
+  // Ctrl+C while the terminal reads input is reported here rather than as a process signal
+  onInterrupt: (listener: () => void) => void;
+  close: () => void;
+}
+
+const print = (line = '') => process.stdout.write(`${line}\n`);
+const printError = (line: string) => process.stderr.write(`${line}\n`);
+
+function createTerminal (): Terminal {
+  let muted = false;
+
+  // Echo of typed characters goes through this stream so passwords can be hidden
+  const output = new Writable({
+    write (chunk, encoding, callback) {
+      if (!muted) {
+        process.stdout.write(chunk, encoding);
+      }
+      callback();
+    }
+  });
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+
+  return {
+    async ask (question, { hidden = false } = {}) {
+      if (!hidden) {
+        return rl.question(question);
+      }
+
+      process.stdout.write(question);
+      muted = true;
+      try {
+        return await rl.question('');
+      } finally {
+        muted = false;
+        process.stdout.write('\n');
+      }
+    },
+    onInterrupt: (listener) => {
+      rl.on('SIGINT', listener);
+    },
+    close: () => rl.close()
+  };
+}
+
+function parseHeadlessArgs (argv: string[]) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      headless: { type: 'boolean' },
+      config: { type: 'string' },
+      answers: { type: 'string' },
+      'non-interactive': { type: 'boolean' },
+      'ignore-check': { type: 'string', multiple: true },
+      'log-dir': { type: 'string' },
+      summary: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  return values;
+}
+
+async function readAnswers (answersPath?: string): Promise<Answers> {
+  if (!answersPath) {
+    return {};
+  }
+
+  const answers = JSON.parse(await fs.readFile(answersPath, 'utf-8'));
+  if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+    throw new Error(`${answersPath} must contain a JSON object`);
+  }
+  return answers;
+}
+
+/** Prints a run event. `label` tags command lines with their step while steps run in parallel. */
+function printEvent (event: RunEvent, variables: UserConfig, label = '') {
+  switch (event.type) {
+    case 'runStart':
+      print(`${event.resumed ? 'Resuming interrupted installation' : 'Starting installation'} (execution mode: ${event.executionMode})`);
+      break;
+    case 'stepStart':
+      print(`\n==> ${event.name}`);
+      break;
+    case 'stepSkipped':
+      print(`\n==> ${event.name} (skipped, condition not met)`);
+      break;
+    case 'stepError':
+      printError(`Error in ${event.name}: ${event.error}`);
+      break;
+    case 'commandStart':
+      print(`  ${label}$ ${event.description}`);
+      break;
+    case 'commandSkipped':
+      print(`  ${label}- ${event.description} (${SKIP_REASONS[event.reason]})`);
+      break;
+    case 'commandOutput':
+      for (const line of event.data.split('\n').filter((line) => line.trim())) {
+        (event.stream === 'stderr' ? printError : print)(`    ${label}${line}`);
+      }
+      break;
+    case 'commandRetry':
+      printError(`  ${label}↻ ${event.description}: ${event.error}; attempt ${event.attempt}/${event.maxAttempts} in ${event.delayMs / 1000}s`);
+      break;
+    case 'commandComplete':
+      if (event.simulated) {
+        print(`  ${label}◌ ${event.description}: simulated, not run`);
+      } else if (event.outcome === 'warn') {
+        printError(`  ${label}⚠ ${event.description}: ${event.error || 'Unknown error'} (continuing)`);
+      } else if (event.outcome === 'fail') {
+        printError(`  ${label}✗ ${event.description}: ${event.error || 'Unknown error'}`);
+      }
+      break;
+    case 'variableCaptured':
+      print(`  ${label}${event.fallback ? 'Using default for' : 'Captured'} ${event.name}: ${event.value}`);
+      break;
+    case 'display':
+      if (event.title) {
+        print(`  ${label}${renderText(event.title, variables, formatAnswer)}`);
+      }
+      for (const line of event.content) {
+        print(`    ${label}${renderText(line, variables, formatAnswer)}`);
+      }
+      break;
+    case 'postInstallStart':
+      print(`\nInstall steps finished; running ${event.count} post-installation task(s)`);
+      break;
+    case 'rollbackStart':
+      print(`\n==> Rolling back ${event.count} command(s)`);
+      break;
+    case 'rollbackCommandStart':
+      print(`  $ [rollback] ${event.description}`);
+      break;
+    case 'rollbackCommandComplete':
+      if (event.result.simulated) {
+        print(`  ◌ ${event.result.description}: simulated, not run`);
+      } else if (!event.result.success) {
+        printError(`  ✗ Rollback failed: ${event.result.description} (${event.result.error})`);
+      }
+      break;
+    case 'rollbackComplete':
+      if (!event.success) {
+        printError('Rollback finished with errors; the system may need manual cleanup');
+      }
+      break;
+    case 'runComplete':
+      if (event.success) {
+        print('\nInstallation completed successfully');
+      } else if (event.cancelled) {
+        printError('\nInstallation cancelled by user');
+      } else {
+        printError(`\nInstallation failed: ${event.error}`);
+      }
+      break;
+  }
+}
+
+function formatAnswer (value: unknown): string {
+  if (typeof value === 'boolean') {
+    return value ? 'yes' : 'no';
+  }
+  return Array.isArray(value) ? formatValue(value) : String(value);
+}
+
+function parseConfirm (input: string, fallback: boolean): boolean | null {
+  const answer = input.trim().toLowerCase();
+  if (!answer) {
+    return fallback;
+  }
+  if ((/^(y|yes|true)$/).test(answer)) {
+    return true;
+  }
+  if ((/^(n|no|false)$/).test(answer)) {
+    return false;
+  }
+  return null;
+}
+
+/** Asks a prompt command on the terminal until the reply passes its validation. */
+async function askPrompt (terminal: Terminal, prompt: InstallCommand, message: string): Promise<unknown> {
+  const options = prompt.options ?? [];
+
+  if (options.length > 0) {
+    options.forEach((option, index) => print(`  ${index + 1}) ${option.label}`));
+  }
+
+  for (;;) {
+    let value: unknown;
+
+    switch (prompt.promptType) {
+      case 'confirm': {
+        const fallback = prompt.default === true || prompt.default === 'yes';
+        value = parseConfirm(await terminal.ask(`${message} ${fallback ? '[Y/n]' : '[y/N]'} `), fallback);
+        break;
+      }
+      case 'select': {
+        const input = (await terminal.ask(`${message} [1-${options.length}] `)).trim();
+        value = input ? options[Number(input) - 1]?.value ?? null : prompt.default ?? null;
+        break;
+      }
+      case 'multiselect': {
+        const input = (await terminal.ask(`${message} (comma-separated numbers) `)).trim();
+        value = input
+          ? input.split(',').map((item) => options[Number(item.trim()) - 1]?.value)
+          : options.filter((option) => option.selected).map((option) => option.value);
+        if ((value as unknown[]).includes(undefined)) {
+          value = null;
+        }
+        break;
+      }
+      default: {
+        const input = await terminal.ask(`${message} `, { hidden: prompt.promptType === 'password' });
+        value = input || prompt.default || '';
+      }
+    }
+
+    const error = value === null ? 'Invalid choice' : validatePromptAnswer(prompt, value);
+    if (!error) {
+      return value;
+    }
+    printError(`  ${error}`);
+  }
+}
+
+// How each type of config field is asked on the terminal; other types are typed in as text
+const FIELD_PROMPT_TYPES: Partial<Record<ConfigFieldType, InstallCommand['promptType']>> = {
+  password: 'password',
+  boolean: 'confirm',
+  select: 'select',
+  multiselect: 'multiselect'
+};
+
+// Numbers and key/value lists arrive as text
+function parseFieldInput (field: ConfigField, value: unknown): unknown {
+  if (typeof value !== 'string' || value === '') {
+    return value;
+  }
+  if (field.type === 'number' || field.type === 'port') {
+    return Number(value);
+  }
+  if (field.type === 'keyValueList') {
+    return value
+      .split(',')
+      .filter((entry) => entry.trim())
+      .map((entry) => {
+        const [key, ...rest] = entry.split('=');
+        return { key: key.trim(), value: rest.join('=').trim() };
+      });
+  }
+  return value;
+}
+
+/**
+ * Fills in config fields that are neither answered nor defaulted, asking on
+ * the terminal when there is one. Fields are visited in order, so template
+ * defaults and `visibleWhen` see the fields before them; fields hidden by
+ * their own or their page's `visibleWhen` are left out. Choices of fields
+ * with `optionsFrom` are read when the field is asked.
+ */
+async function collectConfig (
+  config: InstallerConfig,
+  answers: Answers,
+  terminal: Terminal | null,
+  loadOptions: (field: ConfigField, values: UserConfig) => Promise<SelectOption[]>
+): Promise<UserConfig> {
+  const fields = config.configFields;
+  const values: UserConfig = { ...getFieldDefaults(fields) };
+
+  for (const field of fields) {
+    if (!getVisibleFields(fields, values, config.configPages).includes(field)) {
+      delete values[field.id];
+      continue;
+    }
+    if (field.id in answers) {
+      values[field.id] = answers[field.id];
+      continue;
+    }
+    if (hasTemplateDefault(field)) {
+      values[field.id] = renderFieldDefault(field, values);
+    }
+    if (!terminal) {
+      continue;
+    }
+
+    const required = isFieldRequired(field, values);
+    let error = validateConfigField(field, values[field.id], required);
+    const options = error && field.optionsFrom ? await loadOptions(field, values) : field.options;
+    while (error) {
+      const value = await askPrompt(terminal, {
+        description: field.label,
+        promptType: FIELD_PROMPT_TYPES[field.type] ?? 'input',
+        options,
+        default: values[field.id]
+      } as InstallCommand, field.type === 'keyValueList' ? `${field.label} (comma-separated key=value)` : field.label);
+
+      values[field.id] = parseFieldInput(field, value);
+      error = validateConfigField(field, values[field.id], required);
+      if (error) {
+        printError(`  ${error}`);
+      }
+    }
+  }
+
+  return values;
+}
+
+function answerFromFile (request: PromptRequest, answers: Answers): { found: boolean; value?: unknown } {
+  const { captureAs } = request.prompt;
+  return captureAs && captureAs in answers ? { found: true, value: answers[captureAs] } : { found: false };
+}
+
+/** Answers engine prompts from the answers file, the terminal or the prompt default, in that order. */
+async function answerPrompt (engine: InstallationEngine, request: PromptRequest, answers: Answers, terminal: Terminal | null) {
+  const { prompt } = request;
+  const message = renderText(prompt.message ?? prompt.description, engine.getState().variables);
+  const fromFile = answerFromFile(request, answers);
+
+  if (request.optionsError) {
+    printError(`  Could not read the choices for "${message}": ${request.optionsError}`);
+  }
+
+  if (fromFile.found) {
+    const error = validatePromptAnswer(prompt, fromFile.value);
+    if (error) {
+      engine.rejectPrompt(request.id, `Answer for ${prompt.captureAs} is invalid: ${error}`);
+    } else {
+      engine.answerPrompt(request.id, fromFile.value);
+    }
+    return;
+  }
+
+  if (terminal) {
+    engine.answerPrompt(request.id, await askPrompt(terminal, prompt, message));
+    return;
+  }
+
+  // Without a default, a prompt that allows an empty answer gets one
+  const fallback = prompt.promptType === 'multiselect'
+    ? (prompt.options ?? []).filter((option) => option.selected).map((option) => option.value)
+    : prompt.default ?? (prompt.allowEmpty ? '' : undefined);
+  const error = validatePromptAnswer(prompt, fallback);
+
+  if (fallback === undefined || error) {
+    engine.rejectPrompt(request.id, `No answer for prompt "${message}"`);
+  } else {
+    print(`  ${message} -> ${prompt.promptType === 'password' && fallback ? SECRET_MASK : formatAnswer(fallback)} (default)`);
+    engine.answerPrompt(request.id, fallback);
+  }
+}
+
+// A summary that cannot be written is reported, but does not fail the finished installation
+async function printSummary (config: InstallerConfig, variables: UserConfig, summaryPath?: string) {
+  const summary = getSummary(config, variables);
+  if (summary.groups.length > 0) {
+    print(`\n${formatSummary(summary, 'text').trimEnd()}`);
+  }
+  if (!summaryPath) {
+    return;
+  }
+
+  try {
+    await fs.writeFile(summaryPath, formatSummary(summary, getSummaryExportFormat(summaryPath)));
+    print(`\nSummary written to ${summaryPath}`);
+  } catch (error) {
+    printError(`\nCould not write the summary: ${error.message}`);
+  }
+}
+
+/**
+ * Runs the pre-checks concurrently and reports them in config order. A
+ * failing check named in `ignored` does not block the install if the config
+ * marks it overridable; the override is recorded with the run.
+ */
+async function runPreChecks (config: InstallerConfig, engine: InstallationEngine, ignored: string[] = []): Promise<boolean> {
+  const policy = createCommandPolicy(config);
+  let passed = true;
+
+  print('==> Pre-installation checks');
+  for (const name of ignored.filter((name) => !config.preChecks.some((check) => check.name === name))) {
+    printError(`  --ignore-check "${name}" does not match any pre-check`);
+  }
+  const results = await Promise.all(config.preChecks.map((check) => runPreCheck(check, policy)));
+
+  for (const [index, check] of config.preChecks.entries()) {
+    const result = results[index];
+
+    if (result.outcome === 'fail' && ignored.includes(check.name) && check.overridable) {
+      engine.overridePreCheck({ check: check.name, error: result.error, user: os.userInfo().username, at: new Date().toISOString() });
+      printError(`  ⚠ ${check.name}: ${check.errorMessage} (${result.error}); ignored with --ignore-check`);
+      continue;
+    }
+
+    if (result.outcome === 'fail' || result.error) {
+      passed &&= result.outcome !== 'fail';
+      printError(`  ${result.outcome === 'fail' ? '✗' : '⚠'} ${check.name}: ${check.errorMessage} (${result.error})`);
+      if (result.remediation) {
+        printError(`    → ${result.remediation}`);
+      }
+      if (result.outcome === 'fail' && ignored.includes(check.name)) {
+        printError('    This check is not overridable, so --ignore-check does not apply');
+      }
+      continue;
+    }
+
+    print(`  ${result.simulated ? '◌' : '✓'} ${check.name}${result.simulated ? ' (simulated, not run)' : ''}`);
+    if (result.warning) {
+      print(`    ${result.warning}`);
+    }
+    if (result.measured) {
+      print(`    ${result.measured}${result.required ? ` (required: ${result.required})` : ''}`);
+    }
+    if (result.captured) {
+      engine.captureVariable(result.captured.name, result.captured.value);
+      print(`    {{${result.captured.name}}} = ${result.captured.value}`);
+    }
+  }
+
+  return passed;
+}
+
+/**
+ * Runs an installer config without the GUI: pre-checks, config field
+ * validation and the install steps, reporting on stdout/stderr. Resolves
+ * with the process exit code.
+ */
+export async function runHeadless (argv: string[]): Promise<number> {
+  let args: ReturnType<typeof parseHeadlessArgs>;
+  try {
+    args = parseHeadlessArgs(argv);
+  } catch (error) {
+    printError(`${error.message}\n\n${USAGE}`);
+    return HeadlessExitCode.Usage;
+  }
+
+  if (args.help) {
+    print(USAGE);
+    return HeadlessExitCode.Success;
+  }
+
+  let configPath: string;
+  let config: InstallerConfig;
+  let answers: Answers;
+  try {
+    configPath = await resolveConfigPath({ argv, env: process.env, searchDirs: [process.cwd()] });
+    config = await readInstallerConfig(configPath);
+    answers = await readAnswers(args.answers);
+    print(`${config.installer.name} ${config.installer.version} (${configPath})\n`);
+  } catch (error) {
+    printError(`Failed to load installer files: ${error.message}`);
+    return error instanceof InstallerConfigError ? HeadlessExitCode.InvalidConfig : HeadlessExitCode.Usage;
+  }
+
+  const engine = createInstallationEngine({ logDir: args['log-dir'] });
+  const terminal = process.stdin.isTTY && !args['non-interactive'] ? createTerminal() : null;
+
+  try {
+    if (!await runPreChecks(config, engine, args['ignore-check'])) {
+      printError('\nPre-installation checks failed');
+      return HeadlessExitCode.PreChecksFailed;
+    }
+
+    print('\n==> Configuration');
+    const optionsLoader = createOptionsLoader();
+    const policy = createCommandPolicy(config);
+    // Choices are read with what pre-checks captured and the values entered so far
+    const loadFieldOptions = async (field: ConfigField, values: UserConfig) => {
+      const variables = { ...engine.getCapturedVariables(), ...protectSecrets(config.configFields, values) };
+      const context = { variables, policy, baseDir: path.dirname(configPath) };
+      const { options, error } = await optionsLoader.load(field.optionsFrom, context, { fallback: field.options });
+      if (error) {
+        printError(`  Could not read the choices of ${field.label}: ${error}`);
+      }
+      return options;
+    };
+    const userConfig = await collectConfig(config, answers, terminal, loadFieldOptions);
+    const errors = validateConfigFields(config.configFields, userConfig, config.configPages);
+    if (Object.keys(errors).length > 0) {
+      for (const [fieldId, error] of Object.entries(errors)) {
+        printError(`  ✗ ${fieldId}: ${error}`);
+      }
+      return HeadlessExitCode.InvalidConfig;
+    }
+    print('  ✓ All configuration fields are valid\n');
+
+    // Steps that have started and not yet finished, and those that overlapped another step
+    const runningSteps = new Set<number>();
+    const labelledSteps = new Set<number>();
+    engine.subscribe((event) => {
+      if (event.type === 'stepStart') {
+        runningSteps.add(event.stepIndex);
+        if (runningSteps.size > 1) {
+          runningSteps.forEach((stepIndex) => labelledSteps.add(stepIndex));
+        }
+      }
+      const label = 'stepIndex' in event && labelledSteps.has(event.stepIndex) ? `[${config.installSteps[event.stepIndex].name}] ` : '';
+      printEvent(event, engine.getState().variables, label);
+      if (event.type === 'stepComplete' || event.type === 'stepError') {
+        runningSteps.delete(event.stepIndex);
+      }
+      if (event.type === 'prompt') {
+        answerPrompt(engine, event.request, answers, terminal)
+          .catch((error) => engine.rejectPrompt(event.request.id, error.message));
+      }
+    });
+
+    // The first Ctrl+C cancels the run and rolls back; a second one exits at once
+    const interrupt = () => {
+      if (engine.cancel()) {
+        printError('\nCancelling... press Ctrl+C again to exit immediately');
+      } else {
+        process.exit(HeadlessExitCode.Cancelled);
+      }
+    };
+    process.on('SIGINT', interrupt);
+    terminal?.onInterrupt(interrupt);
+
+    try {
+      await engine.run(config, userConfig, { configDir: path.dirname(configPath) });
+    } finally {
+      process.off('SIGINT', interrupt);
+    }
+
+    const { log } = engine.getState();
+    if (log) {
+      print(`\nLog written to ${log.transcript}`);
+    }
+
+    switch (engine.getState().status) {
+      case 'completed':
+        await printSummary(config, { ...maskSecrets(protectSecrets(config.configFields, userConfig)), ...engine.getState().variables }, args.summary);
+        return HeadlessExitCode.Success;
+      case 'cancelled':
+        return HeadlessExitCode.Cancelled;
+      default:
+        return HeadlessExitCode.InstallFailed;
+    }
+  } finally {
+    terminal?.close();
+  }
+}
@@ -0,0 +1,153 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { isSecret, Secret } from '@/app/lib/secret';
+import type { InstallerConfig, UserConfig } from '@/app/types/installer-config';
+import type { ResumePoint } from '@/app/types/installer-run';
+
+import { getRunSteps } from './postInstall';
+import type { Variables } from './variables';
+
+const JOURNAL_VERSION = 1;
+
+export interface JournalEntry {
+  stepIndex: number;
+  commandIndex: number;
+  status: 'completed' | 'skipped';
+  exitCode?: number | null;
+  finishedAt: string;
+}
+
+/**
+ * On-disk record of an installation run. It is rewritten after every
+ * command so an interrupted run can continue where it stopped.
+ */
+export interface RunJournal {
+  version: number;
+  runId: string;
+  configName: string;
+  configVersion: string;
+  configHash: string;
+  status: 'running' | 'failed';
+  startedAt: string;
+  updatedAt: string;
+  userConfig: UserConfig;
+  variables: Variables;
+  promptAnswers: Record<string, unknown>;
+  entries: JournalEntry[];
+}
+
+/** Encrypts secrets kept in the journal, e.g. with Electron's `safeStorage`. */
+export interface SecretStore {
+  encrypt: (value: string) => string;
+  decrypt: (data: string) => string;
+}
+
+// How a secret is written to the journal: encrypted, or null when it is not kept
+interface StoredSecret {
+  $secret: string | null;
+}
+
+function isStoredSecret (value: unknown): value is StoredSecret {
+  return typeof value === 'object' && value !== null && Object.hasOwn(value, '$secret');
+}
+
+export function commandKey (stepIndex: number, commandIndex: number): string {
+  return `${stepIndex}:${commandIndex}`;
+}
+
+export function hashConfig (config: InstallerConfig): string {
+  const hash = createHash('sha256');
+  hash.update(JSON.stringify(config));
+  return hash.digest('hex');
+}
+
+/**
+ * Reads the journal back. Secrets it kept are decrypted with `secrets`;
+ * those it could not keep, or that no longer decrypt, are left out, so a
+ * resumed command that needs one fails on the undefined variable.
+ */
+export function readJournal (filePath: string, secrets?: SecretStore): RunJournal | null {
+  const revive = (_key: string, value: unknown) => {
+    if (!isStoredSecret(value)) {
+      return value;
+    }
+    try {
+      return value.$secret !== null && secrets ? new Secret(secrets.decrypt(value.$secret)) : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  try {
+    const journal = JSON.parse(fs.readFileSync(filePath, 'utf-8'), revive) as RunJournal;
+    return journal.version === JOURNAL_VERSION ? journal : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes the journal through a temporary file and a rename, synchronously,
+ * so the entry is on disk before the next command starts. Secrets are
+ * written encrypted with `secrets`, or not at all without it.
+ */
+export function writeJournal (filePath: string, journal: RunJournal, secrets?: SecretStore) {
+  const tempPath = `${filePath}.tmp`;
+  // `this[key]` is the value before `Secret.toJSON` masked it
+  const replace = function (this: Record<string, unknown>, key: string, value: unknown) {
+    const original = this[key];
+    if (!isSecret(original)) {
+      return value;
+    }
+    return { $secret: secrets ? secrets.encrypt(original.reveal()) : null } satisfies StoredSecret;
+  };
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(tempPath, JSON.stringify({ ...journal, updatedAt: new Date().toISOString() }, replace, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+}
+
+export function removeJournal (filePath: string) {
+  fs.rmSync(filePath, { force: true });
+}
+
+export function createJournal (runId: string, config: InstallerConfig, userConfig: UserConfig): RunJournal {
+  const now = new Date().toISOString();
+
+  return {
+    version: JOURNAL_VERSION,
+    runId,
+    configName: config.installer.name,
+    configVersion: config.installer.version,
+    configHash: hashConfig(config),
+    status: 'running',
+    startedAt: now,
+    updatedAt: now,
+    userConfig,
+    variables: {},
+    promptAnswers: {},
+    entries: []
+  };
+}
+
+/** Finds the first command of `config` the journal has no entry for. */
+export function findResumePoint (journal: RunJournal, config: InstallerConfig): ResumePoint | null {
+  const done = new Set(journal.entries.map((entry) => commandKey(entry.stepIndex, entry.commandIndex)));
+
+  for (const [stepIndex, step] of getRunSteps(config).entries()) {
+    for (const [commandIndex, command] of step.commands.entries()) {
+      if (!done.has(commandKey(stepIndex, commandIndex))) {
+        return {
+          stepIndex,
+          commandIndex,
+          stepName: step.name,
+          description: command.description ?? command.message ?? ''
+        };
+      }
+    }
+  }
+
+  return null;
+}
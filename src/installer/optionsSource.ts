@@ -0,0 +1,160 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { renderCommand, renderTemplate } from '@/app/lib/template';
+import type { OptionsSource, SelectOption } from '@/app/types/installer-config';
+import type { LoadedOptions } from '@/app/types/installer-run';
+
+import type { CommandPolicy } from './commandPolicy';
+import { runShellCommand } from './commandRunner';
+import { evaluateOutcome } from './outcome';
+import type { Variables } from './variables';
+
+const DEFAULT_TIMEOUT = 10000;
+
+export interface OptionsContext {
+  variables: Variables;
+  policy: CommandPolicy;
+  // Folder relative `file` paths start at, the config file's
+  baseDir: string;
+}
+
+export interface LoadOptionsRequest {
+  // Read the source again instead of using the kept result
+  refresh?: boolean;
+  // Choices shown when the source cannot be read, usually the static `options`
+  fallback?: SelectOption[];
+}
+
+export type OptionsLoader = ReturnType<typeof createOptionsLoader>;
+
+// A source ready to be read, and the key its result is kept under
+interface PreparedSource {
+  key: string;
+  read: () => Promise<SelectOption[]>;
+}
+
+/** A choice per non-empty line; with a pattern, only the lines it matches. */
+function parseLines (text: string, pattern?: string): SelectOption[] {
+  const regex = pattern ? new RegExp(pattern) : null;
+
+  return text.split(/\r?\n/).flatMap((line) => {
+    const trimmed = line.trim();
+    if (!trimmed || !regex) {
+      return trimmed ? [{ value: trimmed, label: trimmed }] : [];
+    }
+
+    const match = regex.exec(trimmed);
+    const value = (match?.groups?.value ?? match?.[1] ?? match?.[0] ?? '').trim();
+    return value ? [{ value, label: match.groups?.label?.trim() || value }] : [];
+  });
+}
+
+/** A choice per entry of a list: strings as they are, objects by `valueKey` and `labelKey`. */
+function parseEntries (entries: unknown[], source: OptionsSource): SelectOption[] {
+  return entries.flatMap((entry) => {
+    const record = typeof entry === 'object' && entry !== null ? entry as Record<string, unknown> : null;
+    const value = record ? record[source.valueKey ?? 'value'] : entry;
+    if (value === undefined || value === null || value === '') {
+      return [];
+    }
+
+    const label = record?.[source.labelKey ?? 'label'] ?? value;
+    return [{ value: String(value), label: String(label) }];
+  });
+}
+
+// The first choice with each value
+function unique (options: SelectOption[]): SelectOption[] {
+  const seen = new Set<string>();
+  return options.filter((option) => !seen.has(option.value) && Boolean(seen.add(option.value)));
+}
+
+function prepareCommand (source: OptionsSource, context: OptionsContext): PreparedSource {
+  // Secrets the command names reach it through its environment
+  const env: Record<string, string> = {};
+  const command = renderCommand(source.command, context.variables, env);
+
+  return {
+    key: JSON.stringify({ command, env, pattern: source.pattern }),
+    read: async () => {
+      // Nobody is asked while choices are read, so only commands the policy runs on its own are run
+      const decision = context.policy.evaluate(command, source.safe);
+      if (decision.verdict === 'deny') {
+        throw new Error(`Blocked by command policy: ${decision.reason}`);
+      }
+      if (decision.verdict !== 'run') {
+        throw new Error(`Not run by the command policy (${decision.reason}); mark the source safe to run it`);
+      }
+
+      const result = await runShellCommand(command, { timeout: source.timeout ?? DEFAULT_TIMEOUT, env });
+      const { success, error } = evaluateOutcome({}, result);
+      if (!success) {
+        throw new Error(result.stderr.trim() || error);
+      }
+      return parseLines(result.stdout, source.pattern);
+    }
+  };
+}
+
+function prepareFile (source: OptionsSource, context: OptionsContext): PreparedSource {
+  const file = path.resolve(context.baseDir, renderTemplate(source.file, context.variables, { strict: true }));
+
+  return {
+    key: JSON.stringify({ file, valueKey: source.valueKey, labelKey: source.labelKey }),
+    read: async () => {
+      let entries: unknown;
+      try {
+        entries = JSON.parse(await fs.readFile(file, 'utf-8'));
+      } catch (error) {
+        throw new Error(`Cannot read ${file}: ${error.message}`);
+      }
+      if (!Array.isArray(entries)) {
+        throw new Error(`${file} does not hold a JSON array`);
+      }
+      return parseEntries(entries, source);
+    }
+  };
+}
+
+function readVariable (source: OptionsSource, variables: Variables): SelectOption[] {
+  const value = variables[source.variable];
+  if (value === undefined || value === null) {
+    throw new Error(`Variable "${source.variable}" has no value`);
+  }
+  return Array.isArray(value) ? parseEntries(value, source) : parseLines(String(value), source.pattern);
+}
+
+/**
+ * Creates a reader for `optionsFrom` sources. What commands print and files
+ * hold is kept per rendered source until a read asks for `refresh`;
+ * variables are read every time, as answers change them. A source that
+ * fails or finds no choices gives the error and the fallback choices.
+ */
+export function createOptionsLoader () {
+  const cache = new Map<string, SelectOption[]>();
+
+  return {
+    async load (source: OptionsSource, context: OptionsContext, request: LoadOptionsRequest = {}): Promise<LoadedOptions> {
+      try {
+        let options: SelectOption[];
+        if (source.variable !== undefined) {
+          options = unique(readVariable(source, context.variables));
+        } else {
+          const prepared = source.command !== undefined ? prepareCommand(source, context) : prepareFile(source, context);
+          options = (!request.refresh && cache.get(prepared.key)) || unique(await prepared.read());
+          if (options.length > 0) {
+            cache.set(prepared.key, options);
+          }
+        }
+
+        if (options.length === 0) {
+          throw new Error('No choices found');
+        }
+        return { options };
+      } catch (error) {
+        return { options: request.fallback ?? [], error: error.message };
+      }
+    }
+  };
+}
@@ -0,0 +1,43 @@
+import type { OutcomeRules } from '@/app/types/installer-config';
+
+import type { ShellCommandResult } from './commandRunner';
+
+export interface OutcomeCheck {
+  success: boolean;
+  error?: string;
+}
+
+function matches (pattern: string, result: ShellCommandResult): boolean {
+  return new RegExp(pattern, 'im').test(`${result.stdout}\n${result.stderr}`);
+}
+
+/**
+ * Applies `OutcomeRules` to a finished command. Commands, rollbacks and
+ * pre-checks all go through here, so a config means the same thing
+ * wherever the rules appear.
+ */
+export function evaluateOutcome (rules: OutcomeRules, result: ShellCommandResult): OutcomeCheck {
+  if (result.exitCode === null) {
+    return { success: false, error: result.error ?? 'Command did not finish' };
+  }
+
+  if (rules.failurePattern && matches(rules.failurePattern, result)) {
+    return { success: false, error: `Output matches failure pattern: ${rules.failurePattern}` };
+  }
+
+  const expected = [rules.expectedExitCode ?? 0].flat();
+  if (!expected.includes(result.exitCode)) {
+    return {
+      success: false,
+      error: expected.length === 1 && expected[0] === 0
+        ? result.error ?? `Command exited with code ${result.exitCode}`
+        : `Command exited with code ${result.exitCode}, expected ${expected.join(' or ')}`
+    };
+  }
+
+  if (rules.successPattern && !matches(rules.successPattern, result)) {
+    return { success: false, error: `Output doesn't match success pattern: ${rules.successPattern}` };
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,35 @@
+import type { InstallerConfig, InstallStep } from '@/app/types/installer-config';
+
+export const POST_INSTALL_STEP_NAME = 'Post-installation';
+
+/**
+ * The config's `postInstall` commands as one more step, which the engine
+ * runs after every install step. Its failures, denied commands included,
+ * are warnings: the software is installed by then, so nothing is rolled
+ * back for them, nor when the run is cancelled during this step.
+ */
+export function createPostInstallStep (config: InstallerConfig): InstallStep | null {
+  if (!config.postInstall?.length) {
+    return null;
+  }
+
+  return {
+    name: POST_INSTALL_STEP_NAME,
+    description: 'Runs the post-installation tasks',
+    commands: config.postInstall.map((task) => ({
+      cmd: task.command,
+      description: task.name,
+      safe: task.safe,
+      sensitive: task.sensitive,
+      timeout: task.timeout,
+      condition: task.condition,
+      continueOnError: true
+    }))
+  };
+}
+
+/** Every step a run may report, by the index its events use: the install steps, then the post-install step. */
+export function getRunSteps (config: InstallerConfig): InstallStep[] {
+  const postInstallStep = createPostInstallStep(config);
+  return postInstallStep ? [...config.installSteps, postInstallStep] : config.installSteps;
+}
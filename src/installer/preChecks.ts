@@ -0,0 +1,96 @@
+import type { PreCheck } from '@/app/types/installer-config';
+import type { Outcome } from '@/app/types/installer-run';
+
+import type { CommandPolicy } from './commandPolicy';
+import { runShellCommand } from './commandRunner';
+import { evaluateOutcome } from './outcome';
+import { runSystemCheck, type SystemCheckResult } from './systemChecks';
+
+const DEFAULT_PRE_CHECK_TIMEOUT = 10000;
+
+export interface PreCheckResult {
+  success: boolean; // False only when the check blocks the install
+  outcome: Outcome;
+  output: string;
+  error?: string;
+  warning?: string;
+  captured?: { name: string; value: string };
+  simulated?: boolean;
+  measured?: string; // Typed checks: what was found, e.g. "42.1G free on /"
+  required?: string;
+  remediation?: string; // Shown with a failure or warning: what the user can do about it
+}
+
+// A failing check blocks the install unless it is only a warning
+function failedCheck (check: PreCheck, result: Omit<PreCheckResult, 'success' | 'outcome'>): PreCheckResult {
+  const blocking = (check.severity ?? 'error') === 'error';
+  return {
+    ...result,
+    success: !blocking,
+    outcome: blocking ? 'fail' : 'warn',
+    warning: blocking ? undefined : check.errorMessage,
+    remediation: check.remediation ?? result.remediation
+  };
+}
+
+// A stuck check, e.g. statfs on a hung network mount, fails after `timeoutMs`
+async function runTypedCheck (check: PreCheck): Promise<PreCheckResult> {
+  const timeout = check.timeoutMs ?? DEFAULT_PRE_CHECK_TIMEOUT;
+  let timer: NodeJS.Timeout;
+  let result: SystemCheckResult;
+  try {
+    result = await Promise.race([
+      runSystemCheck(check),
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeout / 1000}s`)), timeout);
+      })
+    ]);
+  } catch (error) {
+    return failedCheck(check, { output: error.message, error: `Could not check: ${error.message}` });
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const { passed, measured, required, error, remediation } = result;
+  if (!passed) {
+    return failedCheck(check, { output: measured, error, measured, required, remediation });
+  }
+  return { success: true, outcome: 'pass', output: measured, measured, required };
+}
+
+/**
+ * Runs a single pre-installation check. Checks run unattended, so a command
+ * the policy would ask about is simulated instead, and a simulated check
+ * is a warning without its outcome rules being applied. A failing check
+ * with `severity: 'warning'` is a warning too. Output of a passing check is
+ * returned as `captured` when the check declares `captureAs`. Typed checks
+ * (disk space, open ports, OS release and so on) are checked directly
+ * instead of running a command. Each check is independent, so callers may
+ * run them concurrently.
+ */
+export async function runPreCheck (check: PreCheck, policy: CommandPolicy): Promise<PreCheckResult> {
+  if (check.type) {
+    return runTypedCheck(check);
+  }
+
+  const decision = policy.evaluate(check.command, check.safe);
+
+  if (decision.verdict === 'deny') {
+    const error = `Blocked by command policy: ${decision.reason}`;
+    return { success: false, outcome: 'fail', output: error, error };
+  }
+  if (decision.verdict !== 'run') {
+    return { success: true, outcome: 'warn', output: `Would run: ${check.command}`, simulated: true };
+  }
+
+  const result = await runShellCommand(check.command, { timeout: check.timeoutMs ?? DEFAULT_PRE_CHECK_TIMEOUT });
+  const output = result.stdout || result.stderr;
+  const { success, error } = evaluateOutcome({ ...check, successPattern: check.successPattern ?? check.expectedPattern }, result);
+
+  if (!success) {
+    return failedCheck(check, { output: output || error, error });
+  }
+
+  const captured = check.captureAs ? { name: check.captureAs, value: output.trim() } : undefined;
+  return { success: true, outcome: 'pass', output, captured };
+}
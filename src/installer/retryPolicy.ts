@@ -0,0 +1,52 @@
+import type { InstallCommand } from '@/app/types/installer-config';
+
+import type { ShellCommandResult } from './commandRunner';
+
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_RETRY_BACKOFF = 2;
+const MAX_RETRY_DELAY = 60000;
+
+/** Total number of times a command may run, counting the first attempt. */
+export function getMaxAttempts (command: InstallCommand): number {
+  return 1 + Math.max(0, Math.floor(command.retries ?? 0));
+}
+
+/** Whether a failed attempt matches the command's `retryOn`; any failure does without it. */
+export function shouldRetry (command: InstallCommand, result: ShellCommandResult): boolean {
+  const { retryOn } = command;
+  if (!retryOn || (!retryOn.exitCodes && !retryOn.output)) {
+    return true;
+  }
+
+  if (result.exitCode !== null && retryOn.exitCodes?.includes(result.exitCode)) {
+    return true;
+  }
+  return Boolean(retryOn.output && new RegExp(retryOn.output).test(result.output));
+}
+
+/** Wait before the attempt after `attempt`, growing by `retryBackoff` each time and capped at a minute. */
+export function getRetryDelay (command: InstallCommand, attempt: number): number {
+  const delay = command.retryDelayMs ?? DEFAULT_RETRY_DELAY;
+  const backoff = command.retryBackoff ?? DEFAULT_RETRY_BACKOFF;
+  return Math.min(delay * backoff ** (attempt - 1), MAX_RETRY_DELAY);
+}
+
+/** Resolves after `ms`, or as soon as `signal` aborts. */
+export function waitForRetry (ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
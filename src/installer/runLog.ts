@@ -0,0 +1,207 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { REDACTED } from '@/app/lib/secret';
+import type { InstallerConfig, InstallStep } from '@/app/types/installer-config';
+import type { Outcome, RunEvent, RunLogPaths } from '@/app/types/installer-run';
+
+import { getRunSteps } from './postInstall';
+
+/** One line of the JSON Lines log. */
+export interface RunLogEntry {
+  time: string; // ISO timestamp of the event
+  event: RunEvent['type'];
+  stepIndex?: number;
+  step?: string;
+  commandIndex?: number;
+  command?: string; // The command's description
+  commandLine?: string; // The command as it was rendered, secrets redacted; [REDACTED] for sensitive commands
+  stream?: 'stdout' | 'stderr';
+  exitCode?: number | null;
+  durationMs?: number;
+  outcome?: Outcome;
+  message?: string; // Output, error or anything else the event says
+}
+
+function toEntry (event: RunEvent, steps: InstallStep[]): RunLogEntry {
+  const entry: RunLogEntry = { time: new Date(event.timestamp).toISOString(), event: event.type };
+
+  if ('stepIndex' in event) {
+    entry.stepIndex = event.stepIndex;
+    entry.step = steps[event.stepIndex]?.name;
+  }
+  if ('commandIndex' in event && event.commandIndex >= 0) {
+    entry.commandIndex = event.commandIndex;
+  }
+
+  switch (event.type) {
+    case 'runStart':
+      entry.message = `${event.resumed ? 'Resumed' : 'Started'} in ${event.executionMode} mode`;
+      break;
+    case 'preCheckOverridden':
+      entry.message = `Pre-check "${event.override.check}" ignored by ${event.override.user} at ${event.override.at}: ${event.override.error ?? 'no error given'}`;
+      break;
+    case 'stepError':
+      entry.message = event.error;
+      break;
+    case 'commandStart':
+      entry.command = event.description;
+      break;
+    case 'commandSkipped':
+      entry.command = event.description;
+      entry.message = event.reason;
+      break;
+    case 'commandOutput':
+      entry.stream = event.stream;
+      entry.message = event.data;
+      break;
+    case 'commandRetry':
+      entry.command = event.description;
+      entry.message = `Attempt ${event.attempt - 1}/${event.maxAttempts} failed: ${event.error}; retrying in ${event.delayMs}ms`;
+      break;
+    case 'commandComplete':
+      entry.command = event.description;
+      entry.exitCode = event.exitCode;
+      entry.durationMs = event.durationMs;
+      entry.outcome = event.outcome;
+      entry.commandLine = event.commandLine;
+      entry.message = event.simulated ? 'Simulated, not run' : event.error;
+      break;
+    case 'variableCaptured':
+      entry.message = `${event.name} = ${event.value}${event.fallback ? ' (default)' : ''}`;
+      break;
+    case 'prompt':
+      entry.stepIndex = event.request.stepIndex;
+      entry.step = steps[event.request.stepIndex]?.name;
+      entry.message = event.request.prompt.message ?? event.request.prompt.description;
+      break;
+    case 'display':
+      entry.message = [event.title, ...event.content].filter(Boolean).join('\n');
+      break;
+    case 'postInstallStart':
+      entry.message = `Running ${event.count} post-installation task(s)`;
+      break;
+    case 'rollbackStart':
+      entry.message = `Rolling back ${event.count} command(s)`;
+      break;
+    case 'rollbackCommandStart':
+      entry.command = event.description;
+      break;
+    case 'rollbackCommandComplete':
+      entry.command = event.result.description;
+      entry.commandLine = event.result.command;
+      entry.exitCode = event.result.exitCode;
+      entry.outcome = event.result.outcome;
+      entry.message = event.result.error;
+      break;
+    case 'runComplete':
+      entry.outcome = event.success ? 'pass' : 'fail';
+      entry.message = event.cancelled ? 'Cancelled by user' : event.error;
+      break;
+  }
+
+  return entry;
+}
+
+// The same entry as a line of plain text, or null for events the transcript leaves out
+function toTranscriptLine (entry: RunLogEntry): string | null {
+  const time = entry.time.slice(11, 19);
+  const where = entry.step ? `[${entry.step}] ` : '';
+
+  switch (entry.event) {
+    case 'runStart':
+    case 'preCheckOverridden':
+    case 'postInstallStart':
+    case 'rollbackStart':
+      return `${time} ${entry.message}`;
+    case 'stepStart':
+      return `${time} ==> ${entry.step}`;
+    case 'stepSkipped':
+      return `${time} ==> ${entry.step} (skipped)`;
+    case 'stepComplete':
+      return `${time} ${where}done`;
+    case 'stepError':
+      return `${time} ${where}error: ${entry.message}`;
+    case 'commandStart':
+      return `${time} ${where}$ ${entry.command}`;
+    case 'commandSkipped':
+      return `${time} ${where}- ${entry.command} (${entry.message})`;
+    case 'commandOutput':
+      return entry.message
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => `${time} ${where}${entry.stream === 'stderr' ? '! ' : '  '}${line}`)
+        .join('\n') || null;
+    case 'commandComplete': {
+      const duration = entry.durationMs === undefined ? '' : ` in ${(entry.durationMs / 1000).toFixed(1)}s`;
+      return `${time} ${where}${entry.outcome} ${entry.command} (exit ${entry.exitCode ?? '-'}${duration})${entry.message ? `: ${entry.message}` : ''}`;
+    }
+    case 'commandRetry':
+    case 'variableCaptured':
+    case 'display':
+      return `${time} ${where}${entry.message}`;
+    case 'prompt':
+      return `${time} ${where}? ${entry.message}`;
+    case 'rollbackCommandStart':
+      return `${time} ${where}$ [rollback] ${entry.command}`;
+    case 'rollbackCommandComplete':
+      return `${time} ${where}${entry.outcome} [rollback] ${entry.command} (exit ${entry.exitCode ?? '-'})${entry.message ? `: ${entry.message}` : ''}`;
+    case 'runComplete':
+      return `${time} Installation ${entry.outcome === 'pass' ? 'completed' : `failed: ${entry.message}`}`;
+    default:
+      return null;
+  }
+}
+
+export type RunLog = ReturnType<typeof createRunLog>;
+
+/**
+ * Writes a run's events to `<dir>/<start time>-<run id>.jsonl` and a
+ * plain-text transcript next to it. The engine has already redacted
+ * secrets from the events; output of commands marked `sensitive` is left
+ * out here as well. Writes are synchronous so the log is complete up to
+ * the last event if the installer dies.
+ */
+export function createRunLog (dir: string, runId: string, config: InstallerConfig) {
+  // Colons are not allowed in Windows file names
+  const startedAt = new Date()
+    .toISOString()
+    .replace((/[:.]/g), '-');
+  const base = path.join(dir, `${startedAt}-${runId.slice(0, 8)}`);
+  const steps = getRunSteps(config);
+  const paths: RunLogPaths = { jsonl: `${base}.jsonl`, transcript: `${base}.log` };
+  let created = false;
+  let failed = false;
+
+  const isSensitive = (event: RunEvent) => event.type === 'commandOutput' && event.commandIndex >= 0 &&
+    Boolean(steps[event.stepIndex]?.commands[event.commandIndex]?.sensitive);
+
+  return {
+    paths,
+
+    write (event: RunEvent) {
+      const entry = toEntry(event, steps);
+      if (isSensitive(event)) {
+        entry.message = REDACTED;
+      }
+      const line = toTranscriptLine(entry);
+
+      try {
+        if (!created) {
+          fs.mkdirSync(dir, { recursive: true });
+          created = true;
+        }
+        fs.appendFileSync(paths.jsonl, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+        if (line !== null) {
+          fs.appendFileSync(paths.transcript, `${line}\n`, { mode: 0o600 });
+        }
+      } catch (error) {
+        // A full disk should not fail the installation; say so once
+        if (!failed) {
+          failed = true;
+          console.error(`Cannot write run log ${base}: ${error.message}`);
+        }
+      }
+    }
+  };
+}
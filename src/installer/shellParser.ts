@@ -0,0 +1,208 @@
+export interface Redirect {
+  operator: string;
+  target: string;
+}
+
+/** One command of a pipeline or list, e.g. `grep ssh` in `systemctl list-units | grep ssh`. */
+export interface SimpleCommand {
+  words: string[];
+  redirects: Redirect[];
+}
+
+export class ShellParseError extends Error {
+  constructor (message: string) {
+    super(message);
+    this.name = 'ShellParseError';
+  }
+}
+
+const CONTROL_CHARACTERS = new Set([
+  ';',
+  '&',
+  '|',
+  '\n',
+  '(',
+  ')'
+]);
+const WORD_TERMINATORS = new Set([
+  ' ',
+  '\t',
+  '<',
+  '>',
+  ...CONTROL_CHARACTERS
+]);
+
+/**
+ * Splits a shell command into the simple commands it would execute. Lists
+ * (`;`, `&&`, `||`, `&`), pipelines and subshells are flattened, and the
+ * bodies of `$(...)`, backtick and process substitutions are parsed as
+ * commands of their own. Quoting is honoured; expansions are not performed.
+ */
+export function parseShellCommand (source: string): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  let current: SimpleCommand = { words: [], redirects: [] };
+  let pendingRedirect: string | null = null;
+  let index = 0;
+
+  const endCommand = () => {
+    if (pendingRedirect) {
+      throw new ShellParseError(`Missing target for redirect '${pendingRedirect}'`);
+    }
+    if (current.words.length > 0 || current.redirects.length > 0) {
+      commands.push(current);
+    }
+    current = { words: [], redirects: [] };
+  };
+
+  const pushWord = (word: string) => {
+    if (pendingRedirect) {
+      current.redirects.push({ operator: pendingRedirect, target: word });
+      pendingRedirect = null;
+    } else if (word !== '{' && word !== '}') {
+      current.words.push(word);
+    }
+  };
+
+  // Returns the index just past the parenthesis that closes the one before `start`
+  const findClosingParen = (start: number): number => {
+    let depth = 1;
+    let quote: string | null = null;
+
+    for (let i = start; i < source.length; i++) {
+      const char = source[i];
+      if (quote) {
+        if (char === '\\' && quote === '"') {
+          i++;
+        } else if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '\\') {
+        i++;
+      } else if (char === '\'' || char === '"') {
+        quote = char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')' && --depth === 0) {
+        return i + 1;
+      }
+    }
+
+    throw new ShellParseError('Unterminated parenthesis');
+  };
+
+  // Parses `$(...)` or `<(...)` starting at the opening parenthesis and returns the index after it
+  const readSubstitution = (openIndex: number): number => {
+    const end = findClosingParen(openIndex + 1);
+    commands.push(...parseShellCommand(source.slice(openIndex + 1, end - 1)));
+    return end;
+  };
+
+  const readBacktick = (start: number): number => {
+    const end = source.indexOf('`', start + 1);
+    if (end === -1) {
+      throw new ShellParseError('Unterminated backtick');
+    }
+    commands.push(...parseShellCommand(source.slice(start + 1, end)));
+    return end + 1;
+  };
+
+  const readWord = (): string => {
+    let word = '';
+
+    while (index < source.length && !WORD_TERMINATORS.has(source[index])) {
+      const char = source[index];
+
+      if (char === '\\') {
+        word += source[index + 1] ?? '';
+        index += 2;
+      } else if (char === '\'') {
+        const end = source.indexOf('\'', index + 1);
+        if (end === -1) {
+          throw new ShellParseError('Unterminated single quote');
+        }
+        word += source.slice(index + 1, end);
+        index = end + 1;
+      } else if (char === '"') {
+        index++;
+        while (source[index] !== '"') {
+          if (index >= source.length) {
+            throw new ShellParseError('Unterminated double quote');
+          }
+          if (source[index] === '\\') {
+            word += source[index + 1] ?? '';
+            index += 2;
+          } else if (source.startsWith('$(', index)) {
+            const end = readSubstitution(index + 1);
+            word += source.slice(index, end);
+            index = end;
+          } else if (source[index] === '`') {
+            const end = readBacktick(index);
+            word += source.slice(index, end);
+            index = end;
+          } else {
+            word += source[index++];
+          }
+        }
+        index++;
+      } else if (source.startsWith('$(', index)) {
+        const end = readSubstitution(index + 1);
+        word += source.slice(index, end);
+        index = end;
+      } else if (char === '`') {
+        const end = readBacktick(index);
+        word += source.slice(index, end);
+        index = end;
+      } else {
+        word += char;
+        index++;
+      }
+    }
+
+    return word;
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === ' ' || char === '\t') {
+      index++;
+    } else if (char === '#' && (index === 0 || (/\s/).test(source[index - 1]))) {
+      // Comment to end of line
+      while (index < source.length && source[index] !== '\n') {
+        index++;
+      }
+    } else if ((char === '<' || char === '>') && source[index + 1] === '(') {
+      index = readSubstitution(index + 1);
+      pushWord(`${char}(...)`);
+    } else if (char === '<' || char === '>') {
+      // An all-digit word right before the operator is its file descriptor, e.g. `2>`
+      const last = current.words[current.words.length - 1];
+      if (last !== undefined && (/^\d+$/).test(last) && !(/\s/).test(source[index - 1] ?? ' ')) {
+        current.words.pop();
+      }
+
+      let operator = char;
+      index++;
+      while (index < source.length && '<>&|'.includes(source[index]) && operator.length < 3) {
+        operator += source[index++];
+      }
+      pendingRedirect = operator;
+    } else if (char === '&' && source[index + 1] === '>') {
+      let operator = '&>';
+      index += 2;
+      if (source[index] === '>') {
+        operator += '>';
+        index++;
+      }
+      pendingRedirect = operator;
+    } else if (CONTROL_CHARACTERS.has(char)) {
+      endCommand();
+      index++;
+    } else {
+      pushWord(readWord());
+    }
+  }
+
+  endCommand();
+  return commands;
+}
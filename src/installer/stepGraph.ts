@@ -0,0 +1,105 @@
+import type { ConfigIssue, InstallStep } from '@/app/types/installer-config';
+
+/**
+ * Works out which steps each step waits for, by index. A step with
+ * `dependsOn` waits for exactly those steps. A run of consecutive
+ * `parallel` steps all wait for whatever came before the run, and the next
+ * step waits for the whole run. Any other step waits for the one before it,
+ * so a config without these fields runs in order as it always has.
+ * Unknown ids are ignored here; `findStepGraphIssues` reports them.
+ */
+export function resolveStepDependencies (steps: InstallStep[]): number[][] {
+  // The first step with an id wins; `findStepGraphIssues` reports the duplicates
+  const indexById = new Map<string, number>();
+  steps.forEach((step, index) => {
+    if (step.id && !indexById.has(step.id)) {
+      indexById.set(step.id, index);
+    }
+  });
+  // What a step without `dependsOn` waits for
+  let previous: number[] = [];
+  let groupBase: number[] | null = null;
+
+  return steps.map((step, index) => {
+    const explicit = step.dependsOn?.flatMap((id) => (indexById.has(id) ? [indexById.get(id)] : []));
+
+    if (step.parallel) {
+      groupBase ??= previous;
+      const dependencies = explicit ?? groupBase;
+      previous = previous === groupBase ? [index] : [...previous, index];
+      return dependencies;
+    }
+
+    groupBase = null;
+    const dependencies = explicit ?? previous;
+    previous = [index];
+    return dependencies;
+  });
+}
+
+// Indices of the steps on a dependency cycle reachable from `start`, or null
+function findCycle (dependencies: number[][], start: number): number[] | null {
+  const path: number[] = [];
+  const visiting = new Set<number>();
+  const finished = new Set<number>();
+
+  const visit = (index: number): number[] | null => {
+    if (finished.has(index)) {
+      return null;
+    }
+    if (visiting.has(index)) {
+      return path.slice(path.indexOf(index));
+    }
+
+    visiting.add(index);
+    path.push(index);
+    for (const dependency of dependencies[index]) {
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    visiting.delete(index);
+    finished.add(index);
+    return null;
+  };
+
+  return visit(start);
+}
+
+/** Duplicate ids, unknown `dependsOn` ids and dependency cycles, reported against the step that has them. */
+export function findStepGraphIssues (steps: InstallStep[]): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const ids = new Set<string>();
+
+  steps.forEach((step, index) => {
+    if (step.id && ids.has(step.id)) {
+      issues.push({ path: `$.installSteps[${index}].id`, message: `duplicate step id "${step.id}"` });
+    }
+    if (step.id) {
+      ids.add(step.id);
+    }
+  });
+
+  steps.forEach((step, index) => {
+    step.dependsOn?.forEach((id, dependencyIndex) => {
+      if (!ids.has(id)) {
+        issues.push({ path: `$.installSteps[${index}].dependsOn[${dependencyIndex}]`, message: `no step has the id "${id}"` });
+      }
+    });
+  });
+
+  const dependencies = resolveStepDependencies(steps);
+  const reported = new Set<number>();
+  steps.forEach((_, index) => {
+    const cycle = reported.has(index) ? null : findCycle(dependencies, index);
+    if (cycle && !cycle.some((member) => reported.has(member))) {
+      cycle.forEach((member) => reported.add(member));
+      const names = [...cycle, cycle[0]].map((member) => steps[member].id ?? steps[member].name).join(' -> ');
+      issues.push({ path: `$.installSteps[${cycle[0]}].dependsOn`, message: `dependency cycle: ${names}` });
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,160 @@
+import path from 'node:path';
+
+import { SECRET_MASK } from '@/app/lib/secret';
+import { renderTemplate } from '@/app/lib/template';
+import type { ConfigField, InstallerConfig, KeyValuePair, SummaryFormat, SummaryItem } from '@/app/types/installer-config';
+import type { Summary, SummaryExportFormat, SummaryRow } from '@/app/types/installer-run';
+
+import { formatSize } from './systemChecks';
+import type { Variables } from './variables';
+
+const DEFAULT_TITLE = 'Installation Summary';
+
+const FALSE_TEXT = new Set([
+  '',
+  '0',
+  'false',
+  'no',
+  'off'
+]);
+
+/** Shows a variable the way the summary and the completion screen do: lists comma-separated, booleans as Yes/No. */
+export function formatValue (value: unknown, format: SummaryFormat = 'text'): string {
+  // A masked secret stays masked whatever its format
+  if (value === SECRET_MASK) {
+    return SECRET_MASK;
+  }
+  if (format === 'boolean') {
+    return typeof value === 'string' ? (FALSE_TEXT.has(value.trim().toLowerCase()) ? 'No' : 'Yes') : (value ? 'Yes' : 'No');
+  }
+  if (format === 'bytes' && String(value).trim() !== '' && Number.isFinite(Number(value))) {
+    return formatSize(Number(value));
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => formatValue(item)).join(', ');
+  }
+  // An entry of a `keyValueList` field
+  if (typeof value === 'object' && value !== null && 'key' in value) {
+    return `${value.key}=${(value as KeyValuePair).value}`;
+  }
+  return String(value ?? '');
+}
+
+/** Renders a template, or '' when it names a variable without a value, so the row or label it is in can be left out. */
+export function renderOrEmpty (template: string, variables: Variables): string {
+  try {
+    return renderTemplate(template, variables, { strict: true, format: (value) => formatValue(value) }).trim();
+  } catch {
+    return '';
+  }
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Without a configured summary, every config field except passwords
+function defaultItems (fields: ConfigField[]): SummaryItem[] {
+  return fields
+    .filter((field) => field.type !== 'password')
+    .map((field) => ({ label: field.label, variable: field.id }));
+}
+
+function itemValue (item: SummaryItem, variables: Variables): string {
+  const format = item.format ?? 'text';
+  if (item.variable !== undefined) {
+    const value = variables[item.variable];
+    return isEmpty(value) ? '' : formatValue(value, format);
+  }
+
+  const text = renderOrEmpty(item.value ?? '', variables);
+  return text && formatValue(text, format);
+}
+
+/**
+ * Formats the config's `summary` for a finished run. Rows without a value
+ * are left out, as are groups left without rows. `variables` should have
+ * secrets masked.
+ */
+export function getSummary (config: InstallerConfig, variables: Variables): Summary {
+  const groups: Summary['groups'] = [];
+
+  for (const item of config.summary?.items ?? defaultItems(config.configFields)) {
+    const value = itemValue(item, variables) || item.fallback;
+    if (!value) {
+      continue;
+    }
+
+    let group = groups.find((candidate) => candidate.title === item.group);
+    if (!group) {
+      group = { title: item.group, rows: [] };
+      groups.push(group);
+    }
+    group.rows.push({ label: item.label, value, format: item.format ?? 'text' });
+  }
+
+  return {
+    title: (config.summary?.title && renderOrEmpty(config.summary.title, variables)) || DEFAULT_TITLE,
+    groups
+  };
+}
+
+// Pipes end a table cell and newlines end the row
+const markdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+function markdownValue (row: SummaryRow): string {
+  if (row.format !== 'code') {
+    return markdownCell(row.value);
+  }
+  const fence = row.value.includes('`') ? '``' : '`';
+  return markdownCell(`${fence}${fence.length > 1 ? ` ${row.value} ` : row.value}${fence}`);
+}
+
+function toMarkdown (summary: Summary): string {
+  const sections = summary.groups.map((group) => [
+    ...(group.title ? [`## ${group.title}`, ''] : []),
+    '| Setting | Value |',
+    '| --- | --- |',
+    ...group.rows.map((row) => `| ${markdownCell(row.label)} | ${markdownValue(row)} |`)
+  ].join('\n'));
+
+  return [`# ${summary.title}`, ...sections].join('\n\n') + '\n';
+}
+
+function toText (summary: Summary): string {
+  const sections = summary.groups.map((group) => {
+    const indent = group.title ? '  ' : '';
+    return [
+      ...(group.title ? [group.title] : []),
+      ...group.rows.map((row) => `${indent}${row.label}: ${row.value}`)
+    ].join('\n');
+  });
+
+  return [summary.title, ...sections].join('\n\n') + '\n';
+}
+
+/** The summary as plain text (for the clipboard and the terminal), a Markdown document or JSON. */
+export function formatSummary (summary: Summary, format: SummaryExportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(summary);
+    case 'json':
+      return JSON.stringify(summary, null, 2) + '\n';
+    default:
+      return toText(summary);
+  }
+}
+
+/** The export format for a file name: `.json` and `.md` files get those formats, anything else plain text. */
+export function getSummaryExportFormat (filePath: string): SummaryExportFormat {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.json':
+      return 'json';
+    case '.md':
+    case '.markdown':
+      return 'markdown';
+    default:
+      return 'text';
+  }
+}
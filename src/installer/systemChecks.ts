@@ -0,0 +1,461 @@
+import { constants as fsConstants } from 'node:fs';
+import fs from 'node:fs/promises';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+
+import type { PreCheck, PreCheckType } from '@/app/types/installer-config';
+
+// Below the pre-check timeout so an unreachable host is reported as such
+const DEFAULT_TCP_TIMEOUT = 5000;
+
+export interface SystemCheckResult {
+  passed: boolean;
+  measured: string; // What was found, e.g. "42.1G free on /"
+  required?: string;
+  error?: string;
+  remediation?: string; // What the user can do about a failure
+}
+
+/** The `PreCheck` fields each typed check cannot do without. */
+export const REQUIRED_CHECK_FIELDS: Partial<Record<PreCheckType, Array<keyof PreCheck>>> = {
+  portFree: ['port'],
+  fileExists: ['path'],
+  dirWritable: ['path'],
+  commandAvailable: ['program'],
+  envVar: ['variable'],
+  tcpReachable: ['host', 'port']
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  '': 1,
+  K: 1024,
+  M: 1024 ** 2,
+  G: 1024 ** 3,
+  T: 1024 ** 4
+};
+
+/** Parses a size such as `10G`, `512M` or `1.5 GiB` into bytes. Units are powers of 1024. */
+export function parseSize (text: string): number | null {
+  const match = (/^\s*(\d+(?:\.\d+)?)\s*([KMGT]?)(?:i?B)?\s*$/i).exec(text);
+  return match ? Number(match[1]) * SIZE_UNITS[match[2].toUpperCase()] : null;
+}
+
+/** Formats bytes in the style `parseSize` reads, e.g. `42.1G`. */
+export function formatSize (bytes: number): string {
+  const units = Object.keys(SIZE_UNITS).reverse();
+  const unit = units.find((candidate) => bytes >= SIZE_UNITS[candidate]) ?? '';
+  return `${Number((bytes / SIZE_UNITS[unit]).toFixed(1))}${unit}`;
+}
+
+/** Parses a minimum core count, e.g. `4`. */
+export function parseCoreCount (text: string): number | null {
+  return (/^\s*\d+\s*$/).test(text) && Number(text) > 0 ? Number(text) : null;
+}
+
+// The target may not exist yet, e.g. an install directory; measure the nearest existing parent
+async function nearestExistingPath (target: string): Promise<string> {
+  let current = path.resolve(target);
+  for (;;) {
+    try {
+      await fs.access(current);
+      return current;
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return current;
+      }
+      current = parent;
+    }
+  }
+}
+
+async function checkDiskSpace (check: PreCheck): Promise<SystemCheckResult> {
+  const target = check.path ?? path.parse(process.cwd()).root;
+  const stats = await fs.statfs(await nearestExistingPath(target));
+  const free = stats.bavail * stats.bsize;
+  const required = check.minRequired ? parseSize(check.minRequired) : null;
+  const measured = `${formatSize(free)} free on ${target}`;
+
+  if (required !== null && free < required) {
+    return {
+      passed: false,
+      measured,
+      required: check.minRequired,
+      error: `Only ${measured}, ${check.minRequired} required`,
+      remediation: `Free up at least ${formatSize(required - free)} on ${target}`
+    };
+  }
+  return { passed: true, measured, required: check.minRequired };
+}
+
+// MemAvailable counts reclaimable cache, which os.freemem() does not
+async function readAvailableMemory (): Promise<number> {
+  if (process.platform === 'linux') {
+    try {
+      const meminfo = await fs.readFile('/proc/meminfo', 'utf-8');
+      const match = (/^MemAvailable:\s+(\d+)\s+kB/m).exec(meminfo);
+      if (match) {
+        return Number(match[1]) * 1024;
+      }
+    } catch {
+      // Fall back to what Node reports
+    }
+  }
+  return os.freemem();
+}
+
+async function checkMemory (check: PreCheck): Promise<SystemCheckResult> {
+  const total = os.totalmem();
+  const available = await readAvailableMemory();
+  const required = check.minRequired ? parseSize(check.minRequired) : null;
+  const measured = `${formatSize(total)} total, ${formatSize(available)} available`;
+
+  if (required !== null && total < required) {
+    return {
+      passed: false,
+      measured,
+      required: check.minRequired,
+      error: `Only ${formatSize(total)} of memory, ${check.minRequired} required`,
+      remediation: `Run the installer on a machine with at least ${check.minRequired} of memory`
+    };
+  }
+  return { passed: true, measured, required: check.minRequired };
+}
+
+function checkCpu (check: PreCheck): SystemCheckResult {
+  const cores = os.availableParallelism?.() ?? os.cpus().length;
+  const arch = os.arch();
+  const required = check.minRequired ? parseCoreCount(check.minRequired) : null;
+  const measured = `${cores} core${cores === 1 ? '' : 's'}, ${arch}`;
+  const requirement = [
+    required === null ? '' : `${required} core${required === 1 ? '' : 's'}`,
+    check.architectures?.join(' or ') ?? ''
+  ].filter(Boolean).join(', ') || undefined;
+
+  if (required !== null && cores < required) {
+    return {
+      passed: false,
+      measured,
+      required: requirement,
+      error: `Only ${cores} CPU core${cores === 1 ? '' : 's'}, ${required} required`,
+      remediation: `Run the installer on a machine with at least ${required} CPU cores`
+    };
+  }
+  if (check.architectures && !check.architectures.includes(arch)) {
+    return {
+      passed: false,
+      measured,
+      required: requirement,
+      error: `Unsupported CPU architecture ${arch}, expected ${check.architectures.join(' or ')}`,
+      remediation: `Use the installer build for ${arch}, or run it on a ${check.architectures.join(' or ')} machine`
+    };
+  }
+  return { passed: true, measured, required: requirement };
+}
+
+function checkPortFree (check: PreCheck): Promise<SystemCheckResult> {
+  const address = check.host ? `${check.host}:${check.port}` : `port ${check.port}`;
+
+  return new Promise((resolve) => {
+    const server = net.createServer();
+    server.once('error', (error: NodeJS.ErrnoException) => {
+      resolve(error.code === 'EADDRINUSE'
+        ? {
+            passed: false,
+            measured: `${address} is in use`,
+            required: `${address} free`,
+            error: `Another program is listening on ${address}`,
+            remediation: `Stop the program using ${address}, or configure the service to use another port`
+          }
+        : {
+            passed: false,
+            measured: `Cannot bind ${address}`,
+            required: `${address} free`,
+            error: error.message,
+            remediation: error.code === 'EACCES' ? 'Ports below 1024 need administrator privileges' : undefined
+          });
+    });
+    server.listen({ port: check.port, host: check.host, exclusive: true }, () => {
+      server.close(() => resolve({ passed: true, measured: `${address} is free`, required: `${address} free` }));
+    });
+  });
+}
+
+async function checkFileExists (check: PreCheck): Promise<SystemCheckResult> {
+  try {
+    const stats = await fs.stat(check.path);
+    return { passed: true, measured: `${check.path} exists (${stats.isDirectory() ? 'directory' : 'file'})` };
+  } catch {
+    return {
+      passed: false,
+      measured: `${check.path} not found`,
+      error: `${check.path} does not exist`,
+      remediation: `Create ${check.path} or install the software that provides it`
+    };
+  }
+}
+
+async function checkDirWritable (check: PreCheck): Promise<SystemCheckResult> {
+  const existing = await nearestExistingPath(check.path);
+  const target = existing === path.resolve(check.path) ? check.path : `${existing} (to create ${check.path})`;
+
+  try {
+    await fs.access(existing, fsConstants.W_OK);
+    return { passed: true, measured: `${target} is writable` };
+  } catch {
+    return {
+      passed: false,
+      measured: `${target} is not writable`,
+      error: `Cannot write to ${target}`,
+      remediation: `Run the installer as a user who can write to ${existing}, or choose another directory`
+    };
+  }
+}
+
+// Executable lookup as the shell does it; PATHEXT supplies the extensions on Windows
+async function findProgram (program: string): Promise<string | null> {
+  const extensions = process.platform === 'win32' ? (process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';') : [''];
+  const candidates = program.includes('/') || program.includes(path.sep)
+    ? [program]
+    : (process.env.PATH ?? '').split(path.delimiter).filter(Boolean)
+        .map((dir) => path.join(dir, program));
+
+  for (const candidate of candidates) {
+    for (const extension of extensions) {
+      try {
+        const file = candidate + extension;
+        if ((await fs.stat(file)).isFile()) {
+          await fs.access(file, fsConstants.X_OK);
+          return file;
+        }
+      } catch {
+        // Not here; try the next one
+      }
+    }
+  }
+  return null;
+}
+
+async function checkCommandAvailable (check: PreCheck): Promise<SystemCheckResult> {
+  const found = await findProgram(check.program);
+  if (!found) {
+    return {
+      passed: false,
+      measured: `${check.program} not found on PATH`,
+      error: `${check.program} is not installed or not on PATH`,
+      remediation: `Install ${check.program}, or add the directory that contains it to PATH`
+    };
+  }
+  return { passed: true, measured: found };
+}
+
+/**
+ * Compares dotted versions numerically, e.g. `5.15.0-91-generic` against
+ * `5.4`. Anything after the leading numbers is ignored; missing parts count
+ * as 0. Returns null when either side has no leading number.
+ */
+export function compareVersions (left: string, right: string): number | null {
+  const parse = (version: string) => (/^\s*v?(\d+(?:\.\d+)*)/).exec(version)?.[1].split('.').map(Number);
+  const a = parse(left);
+  const b = parse(right);
+  if (!a || !b) {
+    return null;
+  }
+
+  for (let index = 0; index < Math.max(a.length, b.length); index++) {
+    const difference = (a[index] ?? 0) - (b[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+function describeVersionRange (check: PreCheck): string | undefined {
+  if (check.minVersion && check.maxVersion) {
+    return `${check.minVersion} to ${check.maxVersion}`;
+  }
+  if (check.minVersion) {
+    return `${check.minVersion} or later`;
+  }
+  return check.maxVersion ? `${check.maxVersion} or earlier` : undefined;
+}
+
+// Why `version` is outside the check's range, or null when it is inside
+function checkVersionRange (version: string, check: PreCheck): string | null {
+  if (check.minVersion && (compareVersions(version, check.minVersion) ?? -1) < 0) {
+    return `${version} is older than ${check.minVersion}`;
+  }
+  if (check.maxVersion && (compareVersions(version, check.maxVersion) ?? 1) > 0) {
+    return `${version} is newer than ${check.maxVersion}`;
+  }
+  return null;
+}
+
+// KEY=value lines; values may be quoted
+function parseOsRelease (text: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const match = (/^([A-Z_]+)=(.*)$/).exec(line.trim());
+    if (match) {
+      fields[match[1]] = match[2].replace(/^(["'])(.*)\1$/, '$2');
+    }
+  }
+  return fields;
+}
+
+async function checkOsRelease (check: PreCheck): Promise<SystemCheckResult> {
+  const required = [check.distros?.join(' or '), describeVersionRange(check)].filter(Boolean).join(' ') || undefined;
+  let release: Record<string, string>;
+  try {
+    release = parseOsRelease(await fs.readFile('/etc/os-release', 'utf-8').catch(() => fs.readFile('/usr/lib/os-release', 'utf-8')));
+  } catch {
+    return {
+      passed: false,
+      measured: `${os.type()} ${os.release()}, no os-release file`,
+      required,
+      error: 'Cannot identify the operating system release',
+      remediation: 'This check needs a Linux distribution that provides /etc/os-release'
+    };
+  }
+
+  const version = release.VERSION_ID ?? '';
+  const ids = [release.ID, ...(release.ID_LIKE ?? '').split(/\s+/)].filter(Boolean);
+  const measured = release.PRETTY_NAME ?? [release.ID, version].filter(Boolean).join(' ');
+  const supported = `Use a supported release: ${required}`;
+
+  if (check.distros && !check.distros.some((distro) => ids.includes(distro.toLowerCase()))) {
+    return { passed: false, measured, required, error: `${measured} is not ${check.distros.join(' or ')}`, remediation: supported };
+  }
+  const outOfRange = checkVersionRange(version, check);
+  if (outOfRange) {
+    return { passed: false, measured, required, error: `${release.ID ?? 'OS'} ${outOfRange}`, remediation: supported };
+  }
+  return { passed: true, measured, required };
+}
+
+function checkKernelVersion (check: PreCheck): SystemCheckResult {
+  const version = os.release();
+  const measured = `${os.type()} ${version}`;
+  const required = describeVersionRange(check);
+  const outOfRange = checkVersionRange(version, check);
+
+  if (outOfRange) {
+    return {
+      passed: false,
+      measured,
+      required,
+      error: `Kernel ${outOfRange}`,
+      remediation: `Upgrade or switch to a kernel version ${required}`
+    };
+  }
+  return { passed: true, measured, required };
+}
+
+function checkEnvVar (check: PreCheck): SystemCheckResult {
+  const value = process.env[check.variable];
+  const required = check.successPattern ? `${check.variable} matching ${check.successPattern}` : `${check.variable} set`;
+
+  if (value === undefined || value === '') {
+    return {
+      passed: false,
+      measured: `${check.variable} is not set`,
+      required,
+      error: `Environment variable ${check.variable} is not set`,
+      remediation: `Set ${check.variable} before starting the installer`
+    };
+  }
+  // Values can be secrets, so only whether it matched is reported
+  if (check.successPattern && !new RegExp(check.successPattern, 'im').test(value)) {
+    return {
+      passed: false,
+      measured: `${check.variable} is set but does not match`,
+      required,
+      error: `Environment variable ${check.variable} does not match ${check.successPattern}`,
+      remediation: `Set ${check.variable} to a value matching ${check.successPattern}`
+    };
+  }
+  return { passed: true, measured: `${check.variable} is set`, required };
+}
+
+function checkUserIsRoot (): SystemCheckResult {
+  if (!process.getuid) {
+    return {
+      passed: false,
+      measured: `Cannot tell on ${os.type()}`,
+      required: 'root',
+      error: 'Administrator rights can only be checked on Unix-like systems',
+      remediation: 'Use a command check such as `net session` on Windows'
+    };
+  }
+
+  const uid = process.getuid();
+  const user = os.userInfo().username;
+  if (uid !== 0) {
+    return {
+      passed: false,
+      measured: `Running as ${user} (uid ${uid})`,
+      required: 'root',
+      error: 'The installer is not running as root',
+      remediation: 'Restart the installer with sudo or as the root user'
+    };
+  }
+  return { passed: true, measured: `Running as ${user} (uid 0)`, required: 'root' };
+}
+
+function checkTcpReachable (check: PreCheck): Promise<SystemCheckResult> {
+  const address = `${check.host}:${check.port}`;
+  const timeout = check.timeoutMs ?? DEFAULT_TCP_TIMEOUT;
+
+  return new Promise((resolve) => {
+    const socket = net.connect({ host: check.host, port: check.port });
+    const finish = (result: SystemCheckResult) => {
+      socket.destroy();
+      resolve(result);
+    };
+    const unreachable = (error: string) => finish({
+      passed: false,
+      measured: `${address} unreachable`,
+      required: `${address} reachable`,
+      error,
+      remediation: `Check that ${check.host} is up, that something listens on port ${check.port} and that no firewall blocks it`
+    });
+
+    socket.setTimeout(timeout, () => unreachable(`No answer from ${address} within ${timeout / 1000}s`));
+    socket.once('error', (error) => unreachable(error.message));
+    socket.once('connect', () => finish({ passed: true, measured: `Connected to ${address}`, required: `${address} reachable` }));
+  });
+}
+
+/** Runs a typed pre-check, measuring what it is about and comparing it with the requirement. */
+export async function runSystemCheck (check: PreCheck): Promise<SystemCheckResult> {
+  switch (check.type) {
+    case 'diskSpace':
+      return checkDiskSpace(check);
+    case 'memory':
+      return checkMemory(check);
+    case 'cpu':
+      return checkCpu(check);
+    case 'portFree':
+      return checkPortFree(check);
+    case 'fileExists':
+      return checkFileExists(check);
+    case 'dirWritable':
+      return checkDirWritable(check);
+    case 'commandAvailable':
+      return checkCommandAvailable(check);
+    case 'osRelease':
+      return checkOsRelease(check);
+    case 'kernelVersion':
+      return checkKernelVersion(check);
+    case 'envVar':
+      return checkEnvVar(check);
+    case 'userIsRoot':
+      return checkUserIsRoot();
+    case 'tcpReachable':
+      return checkTcpReachable(check);
+    default:
+      throw new Error(`Unknown pre-check type "${check.type}"`);
+  }
+}
@@ -0,0 +1 @@
+export type Variables = Record<string, unknown>;
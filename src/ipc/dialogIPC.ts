@@ -3,10 +3,21 @@ import { spawn } from 'child_process';
 import { platform } from 'os';
 
 export function registerDialogHandlers() {
-  ipcMain.handle('dialog:openDirectory', async () => {
+  ipcMain.handle('dialog:openDirectory', async (_, options: { title?: string; defaultPath?: string } = {}) => {
     const result = await dialog.showOpenDialog({
       properties: ['openDirectory', 'createDirectory'],
-      title: 'Select Installation Directory'
+      title: options.title ?? 'Select Installation Directory',
+      defaultPath: options.defaultPath
+    });
+    return result;
+  });
+
+  ipcMain.handle('dialog:openFile', async (_, options: { title?: string; filters?: Electron.FileFilter[]; defaultPath?: string } = {}) => {
+    const result = await dialog.showOpenDialog({
+      properties: ['openFile'],
+      title: options.title ?? 'Select File',
+      filters: options.filters,
+      defaultPath: options.defaultPath
     });
     return result;
   });
@@ -1,417 +1,391 @@
-import { ipcMain, BrowserWindow } from 'electron';
-import { exec, spawn } from 'child_process';
-import { promisify } from 'util';
+import { app, clipboard, dialog, ipcMain, safeStorage, shell, BrowserWindow } from 'electron';
 import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
-import type { InstallerConfig, PreCheck, InstallCommand, UserConfig } from '../app/types/installer-config';
-
-const execAsync = promisify(exec);
+import type { ConfigLoadResult, InstallerConfig, PreCheck, InstallCommand, UserConfig } from '../app/types/installer-config';
+import type { CommandResult, CompletionInfo, InterruptedRun, LoadedOptions, NextActionResult, PreCheckOverride } from '../app/types/installer-run';
+import { maskSecrets, protectSecrets, redactValue, restoreMaskedSecrets } from '../app/lib/secret';
+import { renderCommand } from '../app/lib/template';
+import { createCommandPolicy } from '../installer/commandPolicy';
+import { createCommandInput } from '../installer/commandInput';
+import { getCompletionInfo, resolveActionTarget } from '../installer/completion';
+import { type OutputStream, runShellCommand } from '../installer/commandRunner';
+import { evaluateCondition } from '../installer/conditions';
+import { loadInstallerConfig as loadConfigFile, readInstallerConfig, resolveConfigPath } from '../installer/configLoader';
+import { createInstallationEngine } from '../installer/engine';
+import { findResumePoint, hashConfig, readJournal, removeJournal, type SecretStore } from '../installer/journal';
+import { createOptionsLoader } from '../installer/optionsSource';
+import { evaluateOutcome } from '../installer/outcome';
+import { getRunSteps } from '../installer/postInstall';
+import { runPreCheck } from '../installer/preChecks';
+import { formatSummary, getSummary, getSummaryExportFormat } from '../installer/summary';
 
 export function registerInstallerHandlers(mainWindow: BrowserWindow) {
   let installerConfig: InstallerConfig | null = null;
   let userConfig: UserConfig = {};
 
-  // Load installer configuration
-  ipcMain.handle('installer:getConfig', async () => {
-    try {
-      // Try advanced config first, fall back to basic
-      let configPath = path.join(process.cwd(), 'installer-config-advanced.json');
-      
-      try {
-        await fs.access(configPath);
-      } catch {
-        // Fall back to basic config
-        configPath = path.join(process.cwd(), 'installer-config.json');
+  // The engine outlives renderer reloads, so a running installation keeps going
+  const journalPath = path.join(app.getPath('userData'), 'installer-journal.json');
+  // Secrets are only journaled when the OS can encrypt them
+  const secretStore: SecretStore | undefined = safeStorage.isEncryptionAvailable()
+    ? {
+        encrypt: (value) => safeStorage.encryptString(value).toString('base64'),
+        decrypt: (data) => safeStorage.decryptString(Buffer.from(data, 'base64'))
       }
-      
-      const configData = await fs.readFile(configPath, 'utf-8');
-      installerConfig = JSON.parse(configData);
-      return installerConfig;
-    } catch (error) {
-      console.error('Failed to load installer config:', error);
-      throw error;
+    : undefined;
+  const engine = createInstallationEngine({ journalPath, secretStore, logDir: path.join(app.getPath('userData'), 'logs') });
+  engine.subscribe((event) => {
+    if (!mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('installer:runEvent', event);
+    }
+  });
+
+  // Don't leave commands running once the app is gone
+  app.on('will-quit', () => {
+    engine.cancel();
+  });
+
+  // Config file picked in the app; takes precedence over --config, INSTALLER_CONFIG and the default locations
+  let selectedConfigPath: string | null = null;
+
+  const getConfigPath = async (): Promise<string> => selectedConfigPath ?? resolveConfigPath({
+    argv: process.argv,
+    env: process.env,
+    searchDirs: [process.resourcesPath, process.cwd()]
+  });
+
+  const currentPolicy = () => createCommandPolicy(installerConfig ?? {});
+
+  // Choices of config fields read from the machine, kept until the user refreshes them
+  const optionsLoader = createOptionsLoader();
+
+  const loadInstallerConfig = async (): Promise<InstallerConfig> => {
+    installerConfig = await readInstallerConfig(await getConfigPath());
+    return installerConfig;
+  };
+
+  // Load and validate the installer configuration, reporting schema problems instead of throwing
+  ipcMain.handle('installer:loadConfig', async (): Promise<ConfigLoadResult> => {
+    const result = await loadConfigFile(await getConfigPath());
+    if (result.config) {
+      installerConfig = result.config;
     }
+    return result;
+  });
+
+  ipcMain.handle('installer:getConfigPath', () => getConfigPath());
+
+  // Use a config file chosen by the user; it is validated when the installer loads it
+  ipcMain.handle('installer:setConfigPath', (_, configPath: string) => {
+    selectedConfigPath = configPath;
+    installerConfig = null;
   });
 
-  // Load advanced installer configuration
-  ipcMain.handle('installer:getAdvancedConfig', async () => {
+  // Load installer configuration
+  ipcMain.handle('installer:getConfig', async () => {
     try {
-      const configPath = path.join(process.cwd(), 'installer-config-advanced.json');
-      const configData = await fs.readFile(configPath, 'utf-8');
-      return JSON.parse(configData);
+      return await loadInstallerConfig();
     } catch (error) {
-      // Return null if advanced config doesn't exist
-      return null;
+      console.error('Failed to load installer config:', error);
+      throw error;
     }
   });
 
   // Save user configuration
   ipcMain.handle('installer:saveUserConfig', async (_, config: UserConfig) => {
-    userConfig = config;
+    // A resumed run hands the renderer masked secrets; sent back unchanged they keep their value
+    userConfig = restoreMaskedSecrets(config, userConfig);
     return { success: true };
   });
 
+  // Choices of a `select` or `multiselect` field with `optionsFrom`, read with the values entered so far
+  ipcMain.handle('installer:loadFieldOptions', async (_, fieldId: string, values: UserConfig, refresh?: boolean): Promise<LoadedOptions> => {
+    const field = installerConfig?.configFields.find((candidate) => candidate.id === fieldId);
+    if (!field?.optionsFrom) {
+      return { options: field?.options ?? [] };
+    }
+
+    const variables = { ...engine.getCapturedVariables(), ...protectSecrets(installerConfig.configFields, restoreMaskedSecrets(values, userConfig)) };
+    const context = { variables, policy: currentPolicy(), baseDir: path.dirname(await getConfigPath()) };
+    return optionsLoader.load(field.optionsFrom, context, { refresh, fallback: field.options });
+  });
+
   // Run pre-installation check
   ipcMain.handle('installer:runPreCheck', async (_, check: PreCheck) => {
-    try {
-      // Allow certain safe commands to run for real
-      const safeCommands = [
-        'uname', 'hostname', 'whoami', 'pwd', 'date', 'df', 'free',
-        'ip route', 'ip addr', 'ls', 'cat /etc/os-release', 'echo'
-      ];
-      
-      // Check if command starts with a safe command
-      const isActuallySafe = safeCommands.some(safe => 
-        check.command.startsWith(safe + ' ') || 
-        check.command === safe ||
-        check.command.startsWith('echo ')
-      );
-      
-      // Run the actual command if it's safe, otherwise echo it
-      const command = isActuallySafe ? check.command : `echo "Would run: ${check.command}"`;
-      
-      const { stdout, stderr } = await execAsync(command, {
-        timeout: 10000, // 10 second timeout
-      });
-
-      const output = stdout || stderr;
-
-      // Check for expected patterns
-      if (check.expectedPattern) {
-        const regex = new RegExp(check.expectedPattern, 'i'); // Case insensitive
-        if (!regex.test(output)) {
-          return {
-            success: false,
-            output,
-            error: `Output doesn't match expected pattern: ${check.expectedPattern}`
-          };
-        }
-      }
-
-      // For disk space checks (simplified)
-      if (check.type === 'diskSpace') {
-        // This is a simplified check - in production you'd parse df output properly
-        return {
-          success: true,
-          output,
-          warning: check.minRequired ? `Ensure at least ${check.minRequired} is available` : undefined
-        };
-      }
+    // A fresh result replaces any earlier decision to ignore this check
+    engine.clearPreCheckOverride(check.name);
+    const result = await runPreCheck(check, currentPolicy());
 
-      return {
-        success: true,
-        output
-      };
-    } catch (error) {
-      return {
-        success: false,
-        output: error.message,
-        error: error.message
-      };
+    // Expose the output to install steps as {{captureAs}}
+    if (result.captured) {
+      engine.captureVariable(result.captured.name, result.captured.value);
     }
-  });
-
-  // Execute installation command
-  ipcMain.handle('installer:runCommand', async (_, command: InstallCommand, variables: UserConfig) => {
-    try {
-      // Replace variables in command
-      let processedCommand = command.cmd || '';
-      for (const [key, value] of Object.entries(variables)) {
-        const replacementValue = value !== undefined && value !== null ? String(value) : '';
-        processedCommand = processedCommand.replace(new RegExp(`{{${key}}}`, 'g'), replacementValue);
-      }
 
-      // List of actually safe commands that can run without explicit safe flag
-      const safeCommands = [
-        'uname', 'hostname', 'whoami', 'pwd', 'date', 'df', 'free',
-        'ip route', 'ip addr', 'ls', 'echo', 'cat /etc/os-release',
-        'systemctl list-units', 'which', 'test', 'head', 'tail', 'wc'
-      ];
-      
-      const isInherentlySafe = safeCommands.some(safe => 
-        processedCommand.startsWith(safe + ' ') || 
-        processedCommand === safe ||
-        processedCommand.startsWith('echo ')
-      );
-
-      // For safety, only run commands marked as safe or inherently safe commands
-      if (!command.safe && !isInherentlySafe) {
-        processedCommand = `echo "Would run: ${processedCommand}"`;
-      }
+    return result;
+  });
 
-      // Don't log sensitive commands
-      if (!command.sensitive) {
-        console.log('Executing:', processedCommand);
-      }
+  // Ignore a failed pre-check the config marks as overridable; the next run logs who did it
+  ipcMain.handle('installer:overridePreCheck', (_, checkName: string, error?: string): PreCheckOverride => {
+    const check = installerConfig?.preChecks.find((candidate) => candidate.name === checkName);
+    if (!check?.overridable) {
+      throw new Error(`Pre-check "${checkName}" cannot be overridden`);
+    }
 
-      const { stdout, stderr } = await execAsync(processedCommand, {
-        timeout: command.timeout || 30000, // Default 30 second timeout
-      });
+    const override: PreCheckOverride = { check: checkName, error, user: os.userInfo().username, at: new Date().toISOString() };
+    // Recorded as a `preCheckOverridden` event, and in the run log, when the next run starts
+    engine.overridePreCheck(override);
+    return override;
+  });
 
-      return {
-        success: true,
-        output: stdout || stderr,
-        command: command.sensitive ? '[REDACTED]' : processedCommand
-      };
+  // Runs a single command outside the engine, e.g. from the legacy installation stage.
+  // There is no prompt here, so commands the policy would ask about are simulated.
+  const runStandaloneCommand = async (
+    command: InstallCommand,
+    variables: UserConfig,
+    onOutput?: (type: OutputStream, data: string) => void
+  ): Promise<CommandResult> => {
+    // Password values reach the command through its environment, never its command line
+    const secretEnv: Record<string, string> = {};
+    const protectedVariables = protectSecrets(installerConfig?.configFields ?? [], variables);
+    let processedCommand: string;
+    // Nobody can answer here, so only `expect` rules with a scripted `send` work
+    let input: ReturnType<typeof createCommandInput>;
+    try {
+      processedCommand = renderCommand(command.cmd || '', protectedVariables, secretEnv);
+      input = createCommandInput(command, protectedVariables);
     } catch (error) {
-      return {
-        success: false,
-        output: error.message,
-        error: error.message,
-        command: command.sensitive ? '[REDACTED]' : command.cmd
-      };
+      return { success: false, outcome: 'fail', output: '', exitCode: null, error: `Cannot render command: ${error.message}`, command: command.cmd };
     }
-  });
+    const shownCommand = command.sensitive ? '[REDACTED]' : processedCommand;
+    const decision = currentPolicy().evaluate(processedCommand, command.safe);
 
-  // Stream command execution for real-time output
-  ipcMain.handle('installer:streamCommand', async (event, command: InstallCommand, variables: UserConfig) => {
-    return new Promise((resolve) => {
-      try {
-        // Replace variables in command
-        let processedCommand = command.cmd || '';
-        for (const [key, value] of Object.entries(variables)) {
-          const replacementValue = value !== undefined && value !== null ? String(value) : '';
-          processedCommand = processedCommand.replace(new RegExp(`{{${key}}}`, 'g'), replacementValue);
-        }
+    if (decision.verdict === 'deny') {
+      const error = `Blocked by command policy: ${decision.reason}`;
+      return { success: false, outcome: 'fail', output: '', exitCode: null, error, command: shownCommand };
+    }
+    if (decision.verdict !== 'run') {
+      return { success: true, outcome: 'pass', output: `Would run: ${shownCommand}`, exitCode: null, command: shownCommand, simulated: true };
+    }
 
-        // For safety, only run commands marked as safe or use echo
-        if (!command.safe && !processedCommand.startsWith('echo')) {
-          processedCommand = `echo "Would run: ${processedCommand}"`;
-        }
+    const secrets = new Set(Object.values(secretEnv));
+    const result = await runShellCommand(processedCommand, {
+      timeout: command.timeout,
+      env: secretEnv,
+      ...input,
+      onOutput: onOutput && ((type, data) => onOutput(type, redactValue(data, secrets)))
+    });
+    const { success, error } = evaluateOutcome(command, result);
+
+    return redactValue({
+      success,
+      outcome: success ? 'pass' : command.continueOnError ? 'warn' : 'fail',
+      output: result.output,
+      exitCode: result.exitCode,
+      error,
+      command: shownCommand
+    }, secrets);
+  };
 
-        // Use spawn for streaming output
-        const [cmd, ...args] = processedCommand.split(' ');
-        const child = spawn(cmd, args, {
-          shell: true,
-        });
-
-        let output = '';
-
-        child.stdout.on('data', (data) => {
-          const chunk = data.toString();
-          output += chunk;
-          
-          // Send real-time output to renderer
-          mainWindow.webContents.send('installer:commandOutput', {
-            type: 'stdout',
-            data: chunk,
-            command: command.description
-          });
-        });
-
-        child.stderr.on('data', (data) => {
-          const chunk = data.toString();
-          output += chunk;
-          
-          mainWindow.webContents.send('installer:commandOutput', {
-            type: 'stderr',
-            data: chunk,
-            command: command.description
-          });
-        });
-
-        child.on('close', (code) => {
-          resolve({
-            success: code === 0,
-            output,
-            exitCode: code,
-            command: command.sensitive ? '[REDACTED]' : processedCommand
-          });
-        });
-
-        child.on('error', (error) => {
-          resolve({
-            success: false,
-            output: error.message,
-            error: error.message,
-            command: command.sensitive ? '[REDACTED]' : processedCommand
-          });
-        });
-
-        // Set timeout
-        setTimeout(() => {
-          child.kill();
-          resolve({
-            success: false,
-            output: 'Command timed out',
-            error: 'Timeout exceeded',
-            command: command.sensitive ? '[REDACTED]' : processedCommand
-          });
-        }, command.timeout || 30000);
-
-      } catch (error) {
-        resolve({
-          success: false,
-          output: error.message,
-          error: error.message,
-          command: command.sensitive ? '[REDACTED]' : command.cmd
-        });
-      }
+  // Execute installation command
+  ipcMain.handle('installer:runCommand', (_, command: InstallCommand, variables: UserConfig) => runStandaloneCommand(command, variables));
+
+  // Stream command execution for real-time output
+  ipcMain.handle('installer:streamCommand', (_, command: InstallCommand, variables: UserConfig) => runStandaloneCommand(command, variables, (type, data) => {
+    // Send real-time output to renderer
+    mainWindow.webContents.send('installer:commandOutput', {
+      type,
+      data,
+      command: command.description
     });
-  });
+  }));
 
   // Get installation steps
   ipcMain.handle('installer:getInstallSteps', async () => {
     if (!installerConfig) {
       throw new Error('Installer configuration not loaded');
     }
-    
-    // Filter steps based on conditions
-    const steps = installerConfig.installSteps.filter(step => {
-      if (step.condition) {
-        // Check if condition is met in userConfig
-        return userConfig[step.condition] === true;
-      }
-      return true;
-    });
 
-    return steps;
+    // Filter steps based on conditions
+    const variables = { ...engine.getCapturedVariables(), ...userConfig };
+    return installerConfig.installSteps.filter((step) => !step.condition || evaluateCondition(step.condition, variables));
   });
 
-  // Helper function to get install steps with conditions applied
-  const getFilteredInstallSteps = () => {
+  // Execute full installation. Progress is reported through `installer:runEvent`.
+  ipcMain.handle('installer:runInstallation', async () => {
     if (!installerConfig) {
       throw new Error('Installer configuration not loaded');
     }
-    
-    // Filter steps based on conditions
-    const steps = installerConfig.installSteps.filter(step => {
-      if (step.condition) {
-        // Check if condition is met in userConfig
-        return userConfig[step.condition] === true;
-      }
-      return true;
-    });
 
-    return steps;
-  };
+    return engine.run(installerConfig, userConfig, { configDir: path.dirname(await getConfigPath()) });
+  });
 
-  // Execute full installation
-  ipcMain.handle('installer:runInstallation', async () => {
+  // Reads the choices of the pending prompt again; null once it is answered
+  ipcMain.handle('installer:refreshPromptOptions', (_, id: string) => engine.refreshPromptOptions(id));
+
+  // Current run state, used by the renderer to restore its view after a reload
+  ipcMain.handle('installer:getRunState', () => engine.getState());
+
+  // Variables of the finished run for the completion screen, secrets masked
+  const completionVariables = () => ({ ...maskSecrets(protectSecrets(installerConfig?.configFields ?? [], userConfig)), ...engine.getState().variables });
+
+  ipcMain.handle('installer:getCompletion', (): CompletionInfo | null => (
+    installerConfig ? getCompletionInfo(installerConfig, completionVariables()) : null
+  ));
+
+  // Copies the installation summary to the clipboard as plain text
+  ipcMain.handle('installer:copySummary', () => {
     if (!installerConfig) {
-      throw new Error('Installer configuration not loaded');
+      return { success: false, error: 'Installer configuration not loaded' };
+    }
+
+    clipboard.writeText(formatSummary(getSummary(installerConfig, completionVariables()), 'text'));
+    return { success: true };
+  });
+
+  // Writes the installation summary where the user chooses, as Markdown or JSON by the file name
+  ipcMain.handle('installer:exportSummary', async () => {
+    if (!installerConfig) {
+      return { success: false, error: 'Installer configuration not loaded' };
+    }
+
+    const result = await dialog.showSaveDialog(mainWindow, {
+      title: 'Export Installation Summary',
+      defaultPath: 'installation-summary.md',
+      filters: [
+        { name: 'Markdown', extensions: ['md'] },
+        { name: 'JSON', extensions: ['json'] }
+      ]
+    });
+    if (result.canceled || !result.filePath) {
+      return { success: false };
+    }
+
+    try {
+      const summary = getSummary(installerConfig, completionVariables());
+      await fs.writeFile(result.filePath, formatSummary(summary, getSummaryExportFormat(result.filePath)));
+      return { success: true, path: result.filePath };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Runs one of the config's next actions, by its index in `completion.nextActions`
+  ipcMain.handle('installer:runNextAction', async (_, index: number): Promise<NextActionResult> => {
+    const action = installerConfig?.completion?.nextActions?.[index];
+    if (!action) {
+      return { success: false, error: 'No such action' };
     }
 
-    const results = [];
-    const steps = getFilteredInstallSteps();
-
-    for (const step of steps) {
-      mainWindow.webContents.send('installer:stepStart', {
-        name: step.name,
-        description: step.description
-      });
-
-      for (const command of step.commands) {
-        // Stream command execution with real-time output
-        const result: any = await new Promise((resolve) => {
-          try {
-            // Replace variables in command
-            let processedCommand = command.cmd || '';
-            for (const [key, value] of Object.entries(userConfig)) {
-              const replacementValue = value !== undefined && value !== null ? String(value) : '';
-              processedCommand = processedCommand.replace(new RegExp(`{{${key}}}`, 'g'), replacementValue);
-            }
-
-            // List of actually safe commands
-            const safeCommands = [
-              'uname', 'hostname', 'whoami', 'pwd', 'date', 'df', 'free',
-              'ip route', 'ip addr', 'ls', 'echo', 'cat /etc/os-release',
-              'systemctl list-units', 'which', 'test', 'head', 'tail', 'wc'
-            ];
-            
-            const isInherentlySafe = safeCommands.some(safe => 
-              processedCommand.startsWith(safe + ' ') || 
-              processedCommand === safe ||
-              processedCommand.startsWith('echo ')
-            );
-
-            // For safety, only run commands marked as safe or inherently safe commands
-            if (!command.safe && !isInherentlySafe) {
-              processedCommand = `echo "Would run: ${processedCommand}"`;
-            }
-
-            const { exec } = require('child_process');
-            const child = exec(processedCommand, {
-              timeout: command.timeout || 30000,
-            });
-
-            let output = '';
-
-            child.stdout?.on('data', (data: Buffer) => {
-              const chunk = data.toString();
-              output += chunk;
-              
-              mainWindow.webContents.send('installer:commandOutput', {
-                type: 'stdout',
-                data: chunk,
-                command: command.description
-              });
-            });
-
-            child.stderr?.on('data', (data: Buffer) => {
-              const chunk = data.toString();
-              output += chunk;
-              
-              mainWindow.webContents.send('installer:commandOutput', {
-                type: 'stderr',
-                data: chunk,
-                command: command.description
-              });
-            });
-
-            child.on('close', (code: number) => {
-              resolve({
-                success: code === 0,
-                output,
-                exitCode: code,
-                command: command.sensitive ? '[REDACTED]' : processedCommand
-              });
-            });
-
-            child.on('error', (error: Error) => {
-              resolve({
-                success: false,
-                output: error.message,
-                error: error.message,
-                exitCode: -1,
-                command: command.sensitive ? '[REDACTED]' : processedCommand
-              });
-            });
-
-          } catch (error: any) {
-            resolve({
-              success: false,
-              output: error.message,
-              error: error.message,
-              exitCode: -1,
-              command: command.sensitive ? '[REDACTED]' : command.cmd
-            });
-          }
-        });
-
-        results.push({
-          step: step.name,
-          command: command.description,
-          ...result
-        });
-
-        if (!result.success && command.expectedExitCode !== undefined) {
-          // Check if the exit code matches expected
-          if (result.exitCode !== command.expectedExitCode) {
-            mainWindow.webContents.send('installer:stepError', {
-              step: step.name,
-              error: result.error || 'Command failed'
-            });
-            break;
-          }
+    try {
+      if (action.type === 'runCommand') {
+        // Secrets the run captured reach the command the way they reach step commands, not masked
+        const result = await runStandaloneCommand({ cmd: action.cmd, description: action.label, safe: action.safe }, { ...engine.getVariables(), ...userConfig });
+        return { success: result.success, error: result.error, output: result.output };
+      }
+
+      const target = resolveActionTarget(action, completionVariables(), path.dirname(await getConfigPath()));
+      switch (action.type) {
+        case 'openUrl':
+          await shell.openExternal(target);
+          return { success: true };
+        case 'showReadme':
+          return { success: true, content: await fs.readFile(target, 'utf-8') };
+        default: {
+          // `openPath` reports failures as a message rather than by throwing
+          const error = await shell.openPath(target);
+          return error ? { success: false, error } : { success: true };
         }
       }
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Copies the last run's log to where the user chooses; a `.jsonl` name gets the structured log
+  ipcMain.handle('installer:saveLog', async () => {
+    const { log } = engine.getState();
+    if (!log) {
+      return { success: false, error: 'No installation log available' };
+    }
+
+    const result = await dialog.showSaveDialog(mainWindow, {
+      title: 'Save Installation Log',
+      defaultPath: path.basename(log.transcript),
+      filters: [
+        { name: 'Transcript', extensions: ['log', 'txt'] },
+        { name: 'JSON Lines', extensions: ['jsonl'] }
+      ]
+    });
+    if (result.canceled || !result.filePath) {
+      return { success: false };
+    }
 
-      mainWindow.webContents.send('installer:stepComplete', {
-        name: step.name
-      });
+    try {
+      await fs.copyFile(path.extname(result.filePath) === '.jsonl' ? log.jsonl : log.transcript, result.filePath);
+      return { success: true, path: result.filePath };
+    } catch (error) {
+      return { success: false, error: error.message };
     }
+  });
+
+  // Values captured by pre-checks, available to `{{var}}` substitution before a run starts
+  ipcMain.handle('installer:getCapturedVariables', () => engine.getCapturedVariables());
+
+  ipcMain.handle('installer:answerPrompt', (_, id: string, value: unknown) => engine.answerPrompt(id, value));
+
+  ipcMain.handle('installer:pause', () => engine.pause());
+
+  ipcMain.handle('installer:resume', () => engine.resume());
+
+  ipcMain.handle('installer:cancel', () => engine.cancel());
+
+  ipcMain.handle('installer:resetRun', () => engine.reset());
+
+  // Journaled run that did not finish, e.g. because the app crashed or the machine rebooted
+  ipcMain.handle('installer:getInterruptedRun', async (): Promise<InterruptedRun | null> => {
+    const journal = readJournal(journalPath, secretStore);
+    if (!journal || engine.isRunning()) {
+      return null;
+    }
+
+    const config = installerConfig ?? await loadInstallerConfig();
+    const configChanged = journal.configHash !== hashConfig(config);
+
+    return {
+      configName: journal.configName,
+      configVersion: journal.configVersion,
+      startedAt: journal.startedAt,
+      updatedAt: journal.updatedAt,
+      completedCommands: journal.entries.length,
+      totalCommands: getRunSteps(config).reduce((total, step) => total + step.commands.length, 0),
+      resumePoint: configChanged ? null : findResumePoint(journal, config),
+      configChanged
+    };
+  });
+
+  // Continue the interrupted run in the background and hand its user config back to the renderer
+  ipcMain.handle('installer:resumeInterruptedRun', async () => {
+    const journal = readJournal(journalPath, secretStore);
+    const config = installerConfig ?? await loadInstallerConfig();
+
+    if (!journal || journal.configHash !== hashConfig(config)) {
+      throw new Error('No resumable installation found');
+    }
+    if (engine.isRunning()) {
+      throw new Error('An installation is already running');
+    }
+
+    userConfig = journal.userConfig;
+    // The run is not awaited; a failure to start it is reported to the installation stage
+    engine.run(config, userConfig, { resumeFrom: journal, configDir: path.dirname(await getConfigPath()) }).catch((error: Error) => {
+      if (!mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('installer:runError', error.message);
+      }
+    });
+    return maskSecrets(userConfig);
+  });
 
-    return results;
+  ipcMain.handle('installer:discardInterruptedRun', () => {
+    removeJournal(journalPath);
   });
-}
\ No newline at end of file
+}